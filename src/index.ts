@@ -10,9 +10,19 @@ async function startServer() {
   // Initialize Firebase Admin after dotenv loads (using dynamic import)
   await import('./config/firebase');
 
+  // Postgres backs users, sessions and LLM usage accounting
+  if (process.env.DATABASE_URL) {
+    const { initializeDatabase } = await import('./config/database');
+    initializeDatabase();
+  } else {
+    console.warn('⚠️ DATABASE_URL not set - sessions and LLM usage accounting are unavailable');
+  }
+
   const newsRoutes = (await import('./routes/news')).default;
   const inventoryRoutes = (await import('./routes/inventory')).default;
   const worldStateRoutes = (await import('./routes/worldState')).default;
+  const usageRoutes = (await import('./routes/usage')).default;
+  const { StoryContentRegistry } = await import('./services/storyContentRegistry');
 
   // Express server setup
   const app = express();
@@ -43,8 +53,17 @@ async function startServer() {
   app.use('/api/admin', require('./routes/admin'));
   app.use('/api/news', newsRoutes);
   app.use('/api/inventory', inventoryRoutes);
+  app.use('/api/usage', usageRoutes);
   app.use('/api/world', worldStateRoutes);
 
+  // Hot-reload story content packs while authoring (on by default outside production)
+  const hotReload = process.env.STORY_HOT_RELOAD
+    ? process.env.STORY_HOT_RELOAD === 'true'
+    : process.env.NODE_ENV !== 'production';
+  if (hotReload) {
+    StoryContentRegistry.getInstance().startWatching();
+  }
+
   // Error handling middleware
   app.use((err: Error, _: express.Request, res: express.Response, __: express.NextFunction) => {
     console.error('Error:', err);
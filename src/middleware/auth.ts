@@ -62,4 +62,12 @@ const authMiddleware = new AuthMiddleware();
 
 // Export the middleware functions
 export const authenticateToken = authMiddleware.authenticate.bind(authMiddleware);
-export const optionalAuth = authMiddleware.optionalAuth.bind(authMiddleware);
\ No newline at end of file
+export const optionalAuth = authMiddleware.optionalAuth.bind(authMiddleware);
+// Admin routes: in production, require the x-admin-key header to match ADMIN_API_KEY
+export function requireAdminKey(req: Request, res: Response, next: NextFunction): void {
+  if (process.env.NODE_ENV === 'production' && req.headers['x-admin-key'] !== process.env.ADMIN_API_KEY) {
+    res.status(403).json({ error: 'Not authorized' });
+    return;
+  }
+  next();
+}
@@ -2,6 +2,11 @@ import { Router } from 'express';
 import { getDatabase } from '../config/database';
 import fs from 'fs';
 import path from 'path';
+import { TurnValidationMetrics } from '../services/llm/turnValidationMetrics';
+import { UsageService } from '../services/usageService';
+import { ModerationService } from '../services/moderationService';
+import { ExperimentService } from '../services/experimentService';
+import { requireAdminKey } from '../middleware/auth';
 
 const router = Router();
 
@@ -58,4 +63,115 @@ router.get('/health-db', async (req, res) => {
   }
 });
 
+// Story turn validation outcomes (valid / repaired / normalized / failed)
+router.get('/llm-metrics', requireAdminKey, (req, res) => {
+  res.json({
+    success: true,
+    turnValidation: TurnValidationMetrics.getInstance().snapshot()
+  });
+});
+
+// Aggregate LLM token usage and estimated spend
+// Query: groupBy=day|user|story|model|task (default day), from/to ISO dates (default: last 30 days)
+router.get('/usage', requireAdminKey, async (req, res) => {
+  try {
+    const groupBy = (req.query.groupBy as string) || 'day';
+    if (!['day', 'user', 'story', 'model', 'task'].includes(groupBy)) {
+      return res.status(400).json({ error: 'groupBy must be one of day, user, story, model, task' });
+    }
+
+    const to = req.query.to ? new Date(req.query.to as string) : new Date();
+    const from = req.query.from
+      ? new Date(req.query.from as string)
+      : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+      return res.status(400).json({ error: 'from and to must be valid dates' });
+    }
+
+    const aggregate = await UsageService.getInstance().getAggregateUsage(
+      groupBy as 'day' | 'user' | 'story' | 'model' | 'task',
+      from,
+      to
+    );
+
+    res.json({
+      success: true,
+      groupBy,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      ...aggregate
+    });
+
+  } catch (error) {
+    console.error('Usage aggregation failed:', error);
+    res.status(500).json({
+      error: 'Failed to aggregate usage',
+      details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+    });
+  }
+});
+
+// Moderation decisions for review, newest first
+// Query: action=allow|rewrite|block, stage=input|output, storyId, limit (default 50, max 500)
+router.get('/moderation', requireAdminKey, async (req, res) => {
+  try {
+    const action = req.query.action as string | undefined;
+    if (action && !['allow', 'rewrite', 'block'].includes(action)) {
+      return res.status(400).json({ error: 'action must be one of allow, rewrite, block' });
+    }
+    const stage = req.query.stage as string | undefined;
+    if (stage && !['input', 'output'].includes(stage)) {
+      return res.status(400).json({ error: 'stage must be one of input, output' });
+    }
+
+    const decisions = await ModerationService.getInstance().getDecisions({
+      action: action as 'allow' | 'rewrite' | 'block' | undefined,
+      stage: stage as 'input' | 'output' | undefined,
+      storyId: req.query.storyId as string | undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined
+    });
+
+    res.json({
+      success: true,
+      count: decisions.length,
+      decisions
+    });
+
+  } catch (error) {
+    console.error('Moderation log query failed:', error);
+    res.status(500).json({
+      error: 'Failed to load moderation decisions',
+      details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+    });
+  }
+});
+
+// Prompt experiment arms compared on engagement (turns per session, completion)
+// Query: experimentId (default: the configured experiment)
+router.get('/experiments', requireAdminKey, async (req, res) => {
+  try {
+    const experimentService = ExperimentService.getInstance();
+    const config = experimentService.getConfig();
+    const experimentId = (req.query.experimentId as string) || config.experiment?.id;
+    if (!experimentId) {
+      return res.status(404).json({ error: 'No prompt experiment is configured', defaultVersion: config.defaultVersion });
+    }
+
+    res.json({
+      success: true,
+      experimentId,
+      active: config.experiment?.id === experimentId,
+      defaultVersion: config.defaultVersion,
+      arms: await experimentService.getReport(experimentId)
+    });
+
+  } catch (error) {
+    console.error('Prompt experiment report failed:', error);
+    res.status(500).json({
+      error: 'Failed to build prompt experiment report',
+      details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+    });
+  }
+});
+
 module.exports = router;
\ No newline at end of file
@@ -2,11 +2,17 @@ import { Router } from 'express';
 import { StorySessionService } from '../services/storySessionService';
 import { AuthMiddleware } from '../middleware/auth';
 import { StoryDiscoveryService } from '../services/storyDiscoveryService';
+import { SessionStateService } from '../services/sessionStateService';
+import { QuestService } from '../services/questService';
+import { StoryEndingService } from '../services/storyEndingService';
 
 const router = Router();
 const sessionService = new StorySessionService();
 const authMiddleware = new AuthMiddleware();
 const storyDiscovery = new StoryDiscoveryService();
+const sessionStateService = SessionStateService.getInstance();
+const questService = QuestService.getInstance();
+const storyEndingService = StoryEndingService.getInstance();
 
 // All routes require authentication
 router.use(authMiddleware.authenticate.bind(authMiddleware));
@@ -95,12 +101,14 @@ router.get('/:sessionId', async (req, res) => {
 
     // Get story metadata
     const storyMetadata = await storyDiscovery.getStory(session.story_id);
+    const ending = await storyEndingService.getEnding(session.story_id, sessionId);
 
     res.json({
       success: true,
       session: {
         ...session,
-        story: storyMetadata
+        story: storyMetadata,
+        ending
       }
     });
 
@@ -141,6 +149,39 @@ router.get('/:sessionId/messages', async (req, res) => {
   }
 });
 
+// Get the session's quests and story flags
+router.get('/:sessionId/quests', async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+
+    const session = await sessionService.getSession(sessionId, req.user!.id);
+    if (!session) {
+      return res.status(404).json({
+        error: 'Session not found'
+      });
+    }
+
+    // Inventories belong to the Firebase user of the story routes, not this
+    // account, so item conditions count as of the session's last turn
+    const location = await sessionStateService.getLocation(session.story_id, sessionId);
+    const { quests, flags } = await questService.getProgress(session.story_id, location, undefined, sessionId);
+
+    res.json({
+      success: true,
+      storyId: session.story_id,
+      quests,
+      flags
+    });
+
+  } catch (error) {
+    console.error('Error fetching session quests:', error);
+    res.status(500).json({
+      error: 'Failed to fetch session quests',
+      details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+    });
+  }
+});
+
 // Generate session summary
 router.post('/:sessionId/summary', async (req, res) => {
   try {
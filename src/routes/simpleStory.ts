@@ -1,8 +1,17 @@
-import { Router } from 'express';
-import { GeminiRAGService } from '../services/geminiRagService';
+import { Request, Response, Router } from 'express';
+import { GeminiRAGService, PreparedTurn, StoryTurnResult } from '../services/geminiRagService';
 import { StoryDiscoveryService } from '../services/storyDiscoveryService';
 import { InventoryService } from '../services/inventoryService';
 import { WorldStateService } from '../services/worldStateService';
+import { TurnAbandonedError, TurnCacheService } from '../services/turnCacheService';
+import { DEFAULT_USAGE_TIER, UsageService } from '../services/usageService';
+import { describeLLMFailure } from '../services/llm';
+import { describeContentBlock } from '../services/moderationService';
+import { StoryContentRegistry } from '../services/storyContentRegistry';
+import { SessionStateService } from '../services/sessionStateService';
+import { QuestService } from '../services/questService';
+import { StoryEndingService } from '../services/storyEndingService';
+import { isActionTypeAllowed } from '../services/dmProfile';
 import admin from '../config/firebase';
 
 const router = Router();
@@ -10,12 +19,429 @@ const geminiRAG = new GeminiRAGService();
 const storyDiscovery = new StoryDiscoveryService();
 const inventoryService = InventoryService.getInstance();
 const worldStateService = new WorldStateService();
+const turnCache = TurnCacheService.getInstance();
+const usageService = UsageService.getInstance();
+const contentRegistry = StoryContentRegistry.getInstance();
+const sessionStateService = SessionStateService.getInstance();
+const questService = QuestService.getInstance();
+const storyEndingService = StoryEndingService.getInstance();
+
+/**
+ * Extract user ID from Firebase token (required for inventory operations) and
+ * the usage tier from its `tier` custom claim
+ */
+async function resolveUser(req: Request): Promise<{ userId?: string; tier: string }> {
+  let userId: string | undefined;
+  let tier = DEFAULT_USAGE_TIER;
+  const authHeader = req.headers.authorization;
+  console.log('🔍 Auth header:', authHeader ? 'Bearer token present' : 'No auth header');
+  
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    try {
+      const token = authHeader.substring(7);
+      console.log('🔍 Attempting to verify Firebase token...');
+      
+      // Always try to verify the token - this ensures consistency with inventory API
+      const decodedToken = await admin.auth().verifyIdToken(token);
+      userId = decodedToken.uid;
+      if (typeof decodedToken.tier === 'string') {
+        tier = decodedToken.tier;
+      }
+      console.log('✅ User ID extracted from token:', userId);
+    } catch (error) {
+      console.log('⚠️ Firebase token verification failed:', error);
+      console.log('⚠️ This might be due to missing Firebase service account credentials');
+      
+      // Only fall back to test user in development if explicitly needed
+      // But warn that this might cause inventory sync issues
+      if (process.env.NODE_ENV === 'development' || !process.env.NODE_ENV) {
+        userId = 'test-user-dev';
+        console.log('🧪 Development mode: Using test user ID - WARNING: This may cause inventory sync issues');
+      } else {
+        console.log('❌ Production mode: Authentication required for inventory features');
+      }
+    }
+  } else {
+    console.log('⚠️ No Firebase token provided - inventory validation will be skipped');
+    // In production, we might want to require auth, but for now allow anonymous stories
+    if (process.env.NODE_ENV === 'development' || !process.env.NODE_ENV) {
+      userId = 'test-user-dev';
+      console.log('🧪 Development mode: Using test user ID for non-authenticated request');
+    }
+  }
+
+  return { userId, tier };
+}
+
+/**
+ * Enforce the user's token quota before generating. Sends a 429 with reset
+ * times and returns false when the quota is exhausted.
+ */
+async function enforceUsageQuota(res: Response, userId: string | undefined, tier: string): Promise<boolean> {
+  if (!userId) {
+    return true;
+  }
+
+  const quota = await usageService.checkQuota(userId, tier);
+  if (quota.allowed) {
+    return true;
+  }
+
+  const period = quota.exceeded!;
+  const resetsAt = quota.resetsAt[period];
+  console.log(`🚫 ${period} token quota exhausted for ${userId} (${quota.usage[period]}/${quota.limits[period]}, tier ${tier})`);
+  res.setHeader('Retry-After', String(Math.max(1, Math.ceil((Date.parse(resetsAt) - Date.now()) / 1000))));
+  res.status(429).json({
+    error: `${period === 'daily' ? 'Daily' : 'Monthly'} story generation quota exceeded`,
+    tier,
+    period,
+    usage: quota.usage,
+    limits: quota.limits,
+    resetsAt: quota.resetsAt
+  });
+  return false;
+}
+
+/**
+ * Reject action types the story's DM profile does not allow; responds with
+ * 400 and returns false when the request must stop
+ */
+async function enforceActionType(res: Response, storyId: string, actionType?: string): Promise<boolean> {
+  const dmProfile = await contentRegistry.getDmProfile(storyId);
+  if (isActionTypeAllowed(dmProfile, actionType)) {
+    return true;
+  }
+
+  res.status(400).json({
+    error: `Action type "${actionType}" is not available in this story`,
+    actionType,
+    allowedActionTypes: dmProfile.allowedActionTypes
+  });
+  return false;
+}
+
+/**
+ * Reject turns for a session whose story has reached an ending; responds
+ * with 409 and returns open: false when the request must stop. Only the
+ * player who reached the ending gets it in the 409, and a retry of the turn
+ * that reached it is let through with that turn's stored response as
+ * finalTurn, to be sent again instead of a new turn.
+ */
+async function enforceSessionOpen(
+  res: Response,
+  storyId: string,
+  sessionId: string | undefined,
+  turnNumber: number,
+  userId?: string
+): Promise<{ open: boolean; finalTurn?: any }> {
+  const ending = await storyEndingService.getEnding(storyId, sessionId);
+  if (!ending) {
+    return { open: true };
+  }
+
+  const finalTurn = await storyEndingService.getFinalTurn(storyId, sessionId);
+  const owned = !!finalTurn && finalTurn.userId === userId;
+  if (owned && ending.turnNumber === turnNumber) {
+    console.log(`♻️ Serving the final turn ${turnNumber} of ended session ${sessionId}`);
+    return { open: true, finalTurn: finalTurn!.response };
+  }
+
+  res.status(409).json({
+    error: 'This story has ended. Restart the session to play again.',
+    ending: owned ? ending : undefined
+  });
+  return { open: false };
+}
+
+/**
+ * The turn a request is for: the client's turnNumber, or the count of player
+ * messages in the history plus one
+ */
+function resolveTurnNumber(
+  turnNumber: number | undefined,
+  conversationHistory: Array<{ role: string; content: string }> | undefined
+): number {
+  return Number.isInteger(turnNumber)
+    ? turnNumber!
+    : (conversationHistory || []).filter(message => message.role === 'user').length + 1;
+}
+
+/**
+ * Apply a turn's inventory changes; returns the updated inventory, or null when
+ * nothing was applied. Items are picked up from and dropped at locationId, the
+ * session's location when the turn started.
+ */
+async function applyInventoryChanges(
+  storyId: string,
+  inventoryChanges: any,
+  locationId: string | null,
+  userId?: string,
+  sessionId?: string
+) {
+  let updatedInventory = null;
+  if (userId && sessionId && inventoryChanges) {
+    console.log('🎒 Processing inventory changes:', inventoryChanges);
+    
+    try {
+      // Process items gained
+      if (inventoryChanges.items_gained && inventoryChanges.items_gained.length > 0) {
+        console.log(`📋 Total items gained: ${inventoryChanges.items_gained.length}`);
+        
+        // Log each item's source for debugging
+        inventoryChanges.items_gained.forEach((item: any, index: number) => {
+          console.log(`📋 Item ${index + 1}: "${item.name}" source="${item.source}"`);
+        });
+        
+        // Check if any items are pickups from world state
+        const pickupItems = inventoryChanges.items_gained.filter((item: any) => 
+          item.source?.includes('picked up') || 
+          item.source?.includes('from floor') ||
+          item.source?.includes('from ground') ||
+          item.source?.includes('ground') ||
+          item.source?.includes('floor')
+        );
+        
+        const regularItems = inventoryChanges.items_gained.filter((item: any) => 
+          !(item.source?.includes('picked up') || 
+            item.source?.includes('from floor') ||
+            item.source?.includes('from ground') ||
+            item.source?.includes('ground') ||
+            item.source?.includes('floor'))
+        );
+        
+        console.log(`📋 Pickup items: ${pickupItems.length}, Regular items: ${regularItems.length}`);
+        
+        // If there are pickup items, handle them as a batch
+        if (pickupItems.length > 0 && locationId) {
+          console.log(`🌍 Found ${pickupItems.length} pickup items, attempting bulk pickup from world state`);
+          try {
+            const pickedUpItems = await worldStateService.pickupAllItemsForUser(
+              userId,
+              sessionId,
+              storyId,
+              locationId
+            );
+            
+            if (pickedUpItems.length > 0) {
+              console.log(`✅ Picked up ${pickedUpItems.length} items from world state`);
+              // Remove pickup items from processing list since they're handled
+              const nonPickupItems = inventoryChanges.items_gained.filter((item: any) => 
+                !item.source?.includes('picked up') && 
+                !item.source?.includes('from floor') &&
+                !item.source?.includes('from ground')
+              );
+              inventoryChanges.items_gained = nonPickupItems;
+            } else {
+              console.log(`⚠️ No items found in world state to pick up, will create new items`);
+            }
+          } catch (error) {
+            console.error(`❌ Failed to pick up from world state: ${error}`);
+            console.log(`⚠️ Will create new items instead`);
+          }
+        }
+        
+        // Process remaining items (non-pickup or fallback items)
+        for (const item of inventoryChanges.items_gained) {
+          console.log(`📦 Adding item to inventory: ${item.name} (${item.quantity || 1})`);
+          
+          // Check if this is a template item (predefined) or dynamic item (AI-generated)
+          const existingTemplate = inventoryService.getStoryItems(storyId)
+            .find(template => template.id === item.id);
+          
+          if (existingTemplate) {
+            // Use existing template system
+            await inventoryService.addItem(
+              userId,
+              sessionId,
+              item.id,
+              item.quantity || 1,
+              item.source || 'story_event'
+            );
+          } else {
+            // Create dynamic item from AI specifications
+            const dynamicItemSpec = {
+              name: item.name,
+              description: item.description || `A ${item.name} discovered during your adventure.`,
+              quantity: item.quantity || 1,
+              source: item.source || 'found_in_world',
+              // Extract additional properties from the item if provided
+              rarity: item.rarity || 'common',
+              category: item.category,
+              magical: item.magical || false,
+              properties: item.properties || []
+            };
+            
+            console.log(`🎲 Creating dynamic item: ${item.name}`);
+            await inventoryService.addDynamicItem(userId, sessionId, dynamicItemSpec);
+          }
+        }
+      }
+
+      // Process items lost
+      if (inventoryChanges.items_lost && inventoryChanges.items_lost.length > 0) {
+        console.log(`📦 Processing ${inventoryChanges.items_lost.length} lost items`);
+        for (const item of inventoryChanges.items_lost) {
+          console.log(`🗑️ Processing item loss: ${item.name} (${item.quantity || 1}) - ${item.reason || 'no reason given'}`);
+          const inventory = await inventoryService.getPlayerInventory(userId, sessionId);
+          if (inventory) {
+            const inventoryItem = inventory.items.find(invItem => 
+              invItem.name.toLowerCase() === item.name.toLowerCase()
+            );
+            if (inventoryItem) {
+              // Check if this is a "drop" action based on the reason
+              const isDrop = item.reason?.includes('drop') || 
+                            item.reason?.includes('voluntarily') ||
+                            item.reason?.includes('placed on ground') ||
+                            item.reason?.includes('set down');
+              
+              console.log(`🔍 Drop detection for "${item.name}": reason="${item.reason}", isDrop=${isDrop}`);
+              
+              if (isDrop && locationId) {
+                // Move item to world state instead of just removing it
+                console.log(`📍 Dropping item to world state: ${item.name}`);
+                try {
+                  await worldStateService.dropItem(
+                    userId,
+                    sessionId,
+                    storyId,
+                    locationId,
+                    inventoryItem.id
+                  );
+                  console.log(`✅ Item dropped to world state successfully: ${item.name}`);
+                } catch (error) {
+                  console.error(`❌ Failed to drop item to world state: ${error}`);
+                  // Fallback to regular removal if world state fails
+                  await inventoryService.removeItem(userId, sessionId, inventoryItem.id, item.quantity || 1);
+                }
+              } else {
+                // Regular removal (consumed, destroyed, etc.)
+                console.log(`🗑️ Removing item from inventory: ${item.name}`);
+                await inventoryService.removeItem(userId, sessionId, inventoryItem.id, item.quantity || 1);
+              }
+            }
+          }
+        }
+      }
+
+      // Process gold changes
+      if (inventoryChanges.gold_change && inventoryChanges.gold_change !== 0) {
+        console.log(`💰 Gold change: ${inventoryChanges.gold_change > 0 ? '+' : ''}${inventoryChanges.gold_change}`);
+        // TODO: Implement gold change logic
+      }
+
+      // Get updated inventory after all changes are processed and saved
+      console.log('📦 Getting final inventory state after all Firebase operations complete...');
+      updatedInventory = await inventoryService.getPlayerInventory(userId, sessionId);
+      console.log(`📦 Final inventory retrieved: ${updatedInventory?.items.length || 0} items`);
+
+      console.log('✅ Inventory changes processed successfully');
+    } catch (error) {
+      console.error('❌ Error processing inventory changes:', error);
+      // Don't fail the response if inventory processing fails
+    }
+  }
+
+  return updatedInventory;
+}
+
+/**
+ * Apply a generated turn to the session: its inventory changes, then the
+ * location it left the player in, then quest progress, which depends on both,
+ * and finally the story ending it reached, if any, with its epilogue
+ */
+async function applyTurn(
+  storyId: string,
+  prepared: PreparedTurn,
+  result: StoryTurnResult,
+  turnNumber: number,
+  userId?: string,
+  sessionId?: string
+) {
+  const inventory = await applyInventoryChanges(
+    storyId,
+    result.inventoryChanges,
+    prepared.location.locationId,
+    userId,
+    sessionId
+  );
+  await sessionStateService.saveLocation(storyId, sessionId, result.location);
+  const quests = await questService.advance(storyId, result.location, result.flagsSet, userId, sessionId);
+
+  const reached = await storyEndingService.detect(storyId, {
+    locationId: result.location.locationId,
+    quests: quests.quests,
+    flags: quests.flags,
+    playerDied: result.playerDied
+  });
+  const ending = reached
+    ? storyEndingService.reach(
+      reached,
+      await geminiRAG.generateEpilogue(prepared, result.response.narrative, reached),
+      turnNumber
+    )
+    : null;
+  return { inventory, quests, ending };
+}
+
+/**
+ * Run a turn through the turn cache when it can be identified (session +
+ * turn number + prompt fingerprint)
+ */
+async function resolveCachedTurn<T>(
+  sessionId: string | undefined,
+  turnNumber: number,
+  promptFingerprint: string,
+  produce: () => Promise<T>
+): Promise<{ value: T; cached: boolean }> {
+  if (!sessionId) {
+    return { value: await produce(), cached: false };
+  }
+
+  const key = turnCache.buildKey({ sessionId, turnNumber, promptFingerprint });
+  return turnCache.resolve(key, produce);
+}
+
+function buildResponseMetadata(result: StoryTurnResult) {
+  return {
+    sources: result.sources,
+    contextRelevant: result.contextUsed.length > 0,
+    inventoryChanges: result.inventoryChanges,
+    moderation: {
+      rating: result.moderation.output.rating,
+      input: result.moderation.input.action,
+      output: result.moderation.output.action
+    },
+    injectionSignals: result.injectionSignals,
+    rejectedItems: result.rejectedItems,
+    prompt: result.prompt,
+    location: {
+      id: result.location.locationId,
+      previousId: result.location.previousLocationId,
+      moved: result.location.moved,
+      visited: result.location.visitedLocationIds,
+      rejectedMove: result.location.rejectedReason
+    },
+    promptBudget: {
+      estimatedTokens: result.promptBudget.estimatedTokens,
+      tokenLimit: result.promptBudget.tokenLimit,
+      dropped: result.promptBudget.dropped,
+      reduced: result.promptBudget.sections
+        .filter(section => section.action !== 'kept')
+        .map(section => ({
+          id: section.id,
+          action: section.action,
+          keptUnits: section.keptUnits,
+          originalUnits: section.originalUnits
+        }))
+    }
+  };
+}
 
 // RAG-enhanced story generation using direct Gemini API
 router.post('/:storyId/generate-rag', async (req, res) => {
   try {
     const { storyId } = req.params;
-    const { userMessage, conversationHistory, actionType, sessionId } = req.body;
+    const { userMessage, conversationHistory, actionType, sessionId, turnNumber } = req.body;
 
     // Validate story exists
     const storyExists = await storyDiscovery.storyExists(storyId);
@@ -32,48 +458,30 @@ router.post('/:storyId/generate-rag', async (req, res) => {
       });
     }
 
+    if (!(await enforceActionType(res, storyId, actionType))) {
+      return;
+    }
+
     console.log(`🎭 Processing RAG story request for ${storyId}:`, userMessage, actionType ? `(${actionType})` : '');
 
-    // Extract user ID from Firebase token (required for inventory operations)
-    let userId: string | undefined;
-    const authHeader = req.headers.authorization;
-    console.log('🔍 Auth header:', authHeader ? 'Bearer token present' : 'No auth header');
+    const { userId, tier } = await resolveUser(req);
     console.log('🔍 Request sessionId:', sessionId);
-    
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      try {
-        const token = authHeader.substring(7);
-        console.log('🔍 Attempting to verify Firebase token...');
-        
-        // Always try to verify the token - this ensures consistency with inventory API
-        const decodedToken = await admin.auth().verifyIdToken(token);
-        userId = decodedToken.uid;
-        console.log('✅ User ID extracted from token:', userId);
-      } catch (error) {
-        console.log('⚠️ Firebase token verification failed:', error);
-        console.log('⚠️ This might be due to missing Firebase service account credentials');
-        
-        // Only fall back to test user in development if explicitly needed
-        // But warn that this might cause inventory sync issues
-        if (process.env.NODE_ENV === 'development' || !process.env.NODE_ENV) {
-          userId = 'test-user-dev';
-          console.log('🧪 Development mode: Using test user ID - WARNING: This may cause inventory sync issues');
-        } else {
-          console.log('❌ Production mode: Authentication required for inventory features');
-        }
-      }
-    } else {
-      console.log('⚠️ No Firebase token provided - inventory validation will be skipped');
-      // In production, we might want to require auth, but for now allow anonymous stories
-      if (process.env.NODE_ENV === 'development' || !process.env.NODE_ENV) {
-        userId = 'test-user-dev';
-        console.log('🧪 Development mode: Using test user ID for non-authenticated request');
-      }
+    console.log('🔍 Final userId for story processing:', userId);
+
+    const turn = resolveTurnNumber(turnNumber, conversationHistory);
+    const session = await enforceSessionOpen(res, storyId, sessionId, turn, userId);
+    if (!session.open) {
+      return;
+    }
+    if (session.finalTurn) {
+      return res.json({ ...session.finalTurn, metadata: { ...session.finalTurn.metadata, cached: true } });
     }
 
-    console.log('🔍 Final userId for story processing:', userId);
+    if (!(await enforceUsageQuota(res, userId, tier))) {
+      return;
+    }
 
-    const result = await geminiRAG.generateStoryWithRAG(
+    const prepared = await geminiRAG.prepareTurn(
       storyId,
       userMessage,
       conversationHistory || [],
@@ -82,186 +490,54 @@ router.post('/:storyId/generate-rag', async (req, res) => {
       userId
     );
 
-    // Process inventory changes if present and user is authenticated
-    let updatedInventory = null;
-    if (userId && sessionId && result.inventoryChanges) {
-      console.log('🎒 Processing inventory changes:', result.inventoryChanges);
-      
-      try {
-        // Process items gained
-        if (result.inventoryChanges.items_gained && result.inventoryChanges.items_gained.length > 0) {
-          console.log(`📋 Total items gained: ${result.inventoryChanges.items_gained.length}`);
-          
-          // Log each item's source for debugging
-          result.inventoryChanges.items_gained.forEach((item: any, index: number) => {
-            console.log(`📋 Item ${index + 1}: "${item.name}" source="${item.source}"`);
-          });
-          
-          // Check if any items are pickups from world state
-          const pickupItems = result.inventoryChanges.items_gained.filter((item: any) => 
-            item.source?.includes('picked up') || 
-            item.source?.includes('from floor') ||
-            item.source?.includes('from ground') ||
-            item.source?.includes('ground') ||
-            item.source?.includes('floor')
-          );
-          
-          const regularItems = result.inventoryChanges.items_gained.filter((item: any) => 
-            !(item.source?.includes('picked up') || 
-              item.source?.includes('from floor') ||
-              item.source?.includes('from ground') ||
-              item.source?.includes('ground') ||
-              item.source?.includes('floor'))
-          );
-          
-          console.log(`📋 Pickup items: ${pickupItems.length}, Regular items: ${regularItems.length}`);
-          
-          // If there are pickup items, handle them as a batch
-          if (pickupItems.length > 0) {
-            console.log(`🌍 Found ${pickupItems.length} pickup items, attempting bulk pickup from world state`);
-            try {
-              const defaultLocation = 'training_grounds'; // Use same default as story generation
-              const pickedUpItems = await worldStateService.pickupAllItemsForUser(
-                userId,
-                sessionId,
-                storyId,
-                defaultLocation
-              );
-              
-              if (pickedUpItems.length > 0) {
-                console.log(`✅ Picked up ${pickedUpItems.length} items from world state`);
-                // Remove pickup items from processing list since they're handled
-                const nonPickupItems = result.inventoryChanges.items_gained.filter((item: any) => 
-                  !item.source?.includes('picked up') && 
-                  !item.source?.includes('from floor') &&
-                  !item.source?.includes('from ground')
-                );
-                result.inventoryChanges.items_gained = nonPickupItems;
-              } else {
-                console.log(`⚠️ No items found in world state to pick up, will create new items`);
-              }
-            } catch (error) {
-              console.error(`❌ Failed to pick up from world state: ${error}`);
-              console.log(`⚠️ Will create new items instead`);
-            }
-          }
-          
-          // Process remaining items (non-pickup or fallback items)
-          for (const item of result.inventoryChanges.items_gained) {
-            console.log(`📦 Adding item to inventory: ${item.name} (${item.quantity || 1})`);
-            
-            // Check if this is a template item (predefined) or dynamic item (AI-generated)
-            const existingTemplate = inventoryService.getStoryItems(storyId)
-              .find(template => template.id === item.id);
-            
-            if (existingTemplate) {
-              // Use existing template system
-              await inventoryService.addItem(
-                userId,
-                sessionId,
-                item.id,
-                item.quantity || 1,
-                item.source || 'story_event'
-              );
-            } else {
-              // Create dynamic item from AI specifications
-              const dynamicItemSpec = {
-                name: item.name,
-                description: item.description || `A ${item.name} discovered during your adventure.`,
-                quantity: item.quantity || 1,
-                source: item.source || 'found_in_world',
-                // Extract additional properties from the item if provided
-                rarity: item.rarity || 'common',
-                category: item.category,
-                magical: item.magical || false,
-                properties: item.properties || []
-              };
-              
-              console.log(`🎲 Creating dynamic item: ${item.name}`);
-              await inventoryService.addDynamicItem(userId, sessionId, dynamicItemSpec);
-            }
-          }
-        }
+    // A retried identical turn is answered from the cache, so the model is not
+    // called again and inventory changes are not applied twice
+    const { value: payload, cached } = await resolveCachedTurn(
+      sessionId,
+      turn,
+      prepared.promptFingerprint,
+      async () => {
+        const result = await geminiRAG.completeTurn(prepared);
 
-        // Process items lost
-        if (result.inventoryChanges.items_lost && result.inventoryChanges.items_lost.length > 0) {
-          console.log(`📦 Processing ${result.inventoryChanges.items_lost.length} lost items`);
-          for (const item of result.inventoryChanges.items_lost) {
-            console.log(`🗑️ Processing item loss: ${item.name} (${item.quantity || 1}) - ${item.reason || 'no reason given'}`);
-            const inventory = await inventoryService.getPlayerInventory(userId, sessionId);
-            if (inventory) {
-              const inventoryItem = inventory.items.find(invItem => 
-                invItem.name.toLowerCase() === item.name.toLowerCase()
-              );
-              if (inventoryItem) {
-                // Check if this is a "drop" action based on the reason
-                const isDrop = item.reason?.includes('drop') || 
-                              item.reason?.includes('voluntarily') ||
-                              item.reason?.includes('placed on ground') ||
-                              item.reason?.includes('set down');
-                
-                console.log(`🔍 Drop detection for "${item.name}": reason="${item.reason}", isDrop=${isDrop}`);
-                
-                if (isDrop) {
-                  // Move item to world state instead of just removing it
-                  console.log(`📍 Dropping item to world state: ${item.name}`);
-                  try {
-                    const defaultLocation = 'training_grounds'; // Use same default as story generation
-                    await worldStateService.dropItem(
-                      userId,
-                      sessionId,
-                      storyId,
-                      defaultLocation,
-                      inventoryItem.id
-                    );
-                    console.log(`✅ Item dropped to world state successfully: ${item.name}`);
-                  } catch (error) {
-                    console.error(`❌ Failed to drop item to world state: ${error}`);
-                    // Fallback to regular removal if world state fails
-                    await inventoryService.removeItem(userId, sessionId, inventoryItem.id, item.quantity || 1);
-                  }
-                } else {
-                  // Regular removal (consumed, destroyed, etc.)
-                  console.log(`🗑️ Removing item from inventory: ${item.name}`);
-                  await inventoryService.removeItem(userId, sessionId, inventoryItem.id, item.quantity || 1);
-                }
-              }
-            }
-          }
-        }
+        // Process inventory changes if present and user is authenticated
+        const { inventory: updatedInventory, quests, ending } = await applyTurn(storyId, prepared, result, turn, userId, sessionId);
 
-        // Process gold changes
-        if (result.inventoryChanges.gold_change && result.inventoryChanges.gold_change !== 0) {
-          console.log(`💰 Gold change: ${result.inventoryChanges.gold_change > 0 ? '+' : ''}${result.inventoryChanges.gold_change}`);
-          // TODO: Implement gold change logic
+        const body = {
+          success: true,
+          // No choices once the story has ended; it takes no more turns
+          response: ending ? { ...result.response, choices: [] } : result.response,
+          contextUsed: result.contextUsed,
+          inventory: updatedInventory, // Include updated inventory in response
+          quests: quests.quests,
+          ending,
+          metadata: { ...buildResponseMetadata(result), questChanges: quests.changes }
+        };
+        if (ending) {
+          await storyEndingService.conclude(storyId, sessionId, userId, ending, body);
         }
-
-        // Get updated inventory after all changes are processed and saved
-        console.log('📦 Getting final inventory state after all Firebase operations complete...');
-        updatedInventory = await inventoryService.getPlayerInventory(userId, sessionId);
-        console.log(`📦 Final inventory retrieved: ${updatedInventory?.items.length || 0} items`);
-
-        console.log('✅ Inventory changes processed successfully');
-      } catch (error) {
-        console.error('❌ Error processing inventory changes:', error);
-        // Don't fail the response if inventory processing fails
+        return body;
       }
-    }
+    );
 
-    res.json({
-      success: true,
-      response: result.response,
-      contextUsed: result.contextUsed,
-      inventory: updatedInventory, // Include updated inventory in response
-      metadata: {
-        sources: result.sources,
-        contextRelevant: result.contextUsed.length > 0,
-        inventoryChanges: result.inventoryChanges
-      }
-    });
+    res.json({ ...payload, metadata: { ...payload.metadata, cached } });
 
   } catch (error) {
     console.error('❌ RAG story generation error:', error);
+    const blocked = describeContentBlock(error);
+    if (blocked) {
+      const { status, ...body } = blocked;
+      return res.status(status).json(body);
+    }
+    const failure = describeLLMFailure(error);
+    if (failure) {
+      res.setHeader('Retry-After', String(failure.retryAfterSeconds));
+      return res.status(failure.status).json({
+        error: failure.error,
+        retryable: true,
+        retryAfterSeconds: failure.retryAfterSeconds,
+        details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      });
+    }
     res.status(500).json({
       error: 'Failed to generate RAG-enhanced story response',
       details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
@@ -269,11 +545,175 @@ router.post('/:storyId/generate-rag', async (req, res) => {
   }
 });
 
+// Streaming RAG story generation over Server-Sent Events.
+// Emits `narrative` events ({ delta }) while the model writes, then a single
+// `complete` event with the full turn and updated inventory, or an `error` event.
+router.post('/:storyId/generate-rag/stream', async (req, res) => {
+  const { storyId } = req.params;
+  const { userMessage, conversationHistory, actionType, sessionId, turnNumber } = req.body;
+  const turn = resolveTurnNumber(turnNumber, conversationHistory);
+  let userId: string | undefined;
+  let tier = DEFAULT_USAGE_TIER;
+  let finalTurn: any;
+
+  try {
+    // Validate story exists
+    const storyExists = await storyDiscovery.storyExists(storyId);
+    if (!storyExists) {
+      return res.status(404).json({
+        error: 'Story not found',
+        storyId
+      });
+    }
+
+    if (!userMessage) {
+      return res.status(400).json({
+        error: 'Missing required field: userMessage'
+      });
+    }
+
+    if (!(await enforceActionType(res, storyId, actionType))) {
+      return;
+    }
+
+    ({ userId, tier } = await resolveUser(req));
+    const session = await enforceSessionOpen(res, storyId, sessionId, turn, userId);
+    if (!session.open) {
+      return;
+    }
+    finalTurn = session.finalTurn;
+
+    if (!finalTurn && !(await enforceUsageQuota(res, userId, tier))) {
+      return;
+    }
+  } catch (error) {
+    console.error('❌ RAG story stream setup error:', error);
+    return res.status(500).json({
+      error: 'Failed to generate RAG-enhanced story response',
+      details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+    });
+  }
+
+  console.log(`🎭 Streaming RAG story request for ${storyId}:`, userMessage, actionType ? `(${actionType})` : '');
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const sendEvent = (event: string, data: any) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // Stop generating if the client goes away; the turn is then never applied
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      console.log('⚠️ Stream client disconnected, aborting generation');
+      abortController.abort();
+    }
+  });
+
+  try {
+    if (finalTurn) {
+      // A retry of the turn that ended the story gets its stored response again
+      sendEvent('narrative', { delta: finalTurn.response.narrative });
+      sendEvent('complete', { ...finalTurn, metadata: { ...finalTurn.metadata, cached: true } });
+      return res.end();
+    }
+
+    console.log('🔍 Request sessionId:', sessionId);
+
+    const prepared = await geminiRAG.prepareTurn(
+      storyId,
+      userMessage,
+      conversationHistory || [],
+      actionType,
+      sessionId,
+      userId
+    );
+
+    const { value: payload, cached } = await resolveCachedTurn(
+      sessionId,
+      turn,
+      prepared.promptFingerprint,
+      async () => {
+        // A retry waiting on this turn generates it again if this client goes away
+        const result = await geminiRAG.streamTurn(
+          prepared,
+          delta => sendEvent('narrative', { delta }),
+          abortController.signal
+        ).catch(error => {
+          throw abortController.signal.aborted ? new TurnAbandonedError('Stream client disconnected') : error;
+        });
+
+        if (abortController.signal.aborted) {
+          throw new TurnAbandonedError('Stream client disconnected');
+        }
+
+        // Inventory, location and quests are applied exactly once, after the full turn has been parsed
+        const { inventory: updatedInventory, quests, ending } = await applyTurn(storyId, prepared, result, turn, userId, sessionId);
+
+        const body = {
+          success: true,
+          response: ending ? { ...result.response, choices: [] } : result.response,
+          contextUsed: result.contextUsed,
+          inventory: updatedInventory,
+          quests: quests.quests,
+          ending,
+          metadata: { ...buildResponseMetadata(result), questChanges: quests.changes }
+        };
+        if (ending) {
+          await storyEndingService.conclude(storyId, sessionId, userId, ending, body);
+        }
+        return body;
+      }
+    );
+
+    if (cached) {
+      // Nothing was streamed for a cached turn; send its narrative in one piece
+      sendEvent('narrative', { delta: payload.response.narrative });
+    }
+    sendEvent('complete', { ...payload, metadata: { ...payload.metadata, cached } });
+  } catch (error) {
+    if (abortController.signal.aborted) {
+      return;
+    }
+    console.error('❌ RAG story stream error:', error);
+    const blocked = describeContentBlock(error);
+    if (blocked) {
+      sendEvent('error', blocked);
+      return res.end();
+    }
+    const failure = describeLLMFailure(error);
+    sendEvent('error', {
+      error: failure?.error || 'Failed to generate RAG-enhanced story response',
+      status: failure?.status || 500,
+      retryable: !!failure,
+      retryAfterSeconds: failure?.retryAfterSeconds,
+      details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+    });
+  }
+
+  res.end();
+});
+
 // Search story context (for testing/debugging)
 router.post('/:storyId/search-context', async (req, res) => {
   try {
     const { storyId } = req.params;
-    const { query, maxResults } = req.body;
+    const {
+      query,
+      maxResults,
+      locationId,
+      characterIds,
+      visitedLocationIds,
+      excludeUnvisited,
+      explain,
+      actionType
+    } = req.body;
 
     // Validate story exists
     const storyExists = await storyDiscovery.storyExists(storyId);
@@ -290,7 +730,34 @@ router.post('/:storyId/search-context', async (req, res) => {
       });
     }
 
-    const results = await geminiRAG.searchContext(storyId, query, maxResults || 5);
+    const scene = locationId
+      ? { locationId, characterIds, visitedLocationIds, excludeUnvisited }
+      : undefined;
+
+    // Explain mode: per-document score breakdown plus the exact context block
+    // generateEnhancedPrompt would inject for this message
+    if (explain) {
+      const { explanation, contextString, actionTypeGuidance } = await geminiRAG.explainContext(
+        storyId,
+        query,
+        maxResults || 5,
+        scene,
+        actionType
+      );
+
+      return res.json({
+        success: true,
+        results: explanation.results,
+        excluded: explanation.excluded,
+        queryTerms: explanation.queryTerms,
+        retrievalConfig: explanation.config,
+        scene: explanation.scene,
+        contextString,
+        actionTypeGuidance
+      });
+    }
+
+    const results = await geminiRAG.searchContext(storyId, query, maxResults || 5, scene);
 
     res.json({
       success: true,
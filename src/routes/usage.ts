@@ -0,0 +1,66 @@
+import express from 'express';
+import { DEFAULT_USAGE_TIER, UsageService } from '../services/usageService';
+import admin from '../config/firebase';
+
+const router = express.Router();
+const usageService = UsageService.getInstance();
+
+// Firebase authentication middleware
+const authenticateFirebase = async (req: any, res: any, next: any) => {
+  try {
+    const authHeader = req.headers.authorization;
+    
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+
+    const token = authHeader.substring(7); // Remove 'Bearer ' prefix
+    const decodedToken = await admin.auth().verifyIdToken(token);
+    
+    req.user = {
+      id: decodedToken.uid,
+      email: decodedToken.email,
+      name: decodedToken.name,
+      picture: decodedToken.picture
+    };
+    // Usage tier comes from the `tier` custom claim
+    req.usageTier = typeof decodedToken.tier === 'string' ? decodedToken.tier : DEFAULT_USAGE_TIER;
+    
+    next();
+  } catch (error) {
+    console.error('Firebase token verification error:', error);
+    res.status(401).json({ error: 'Invalid or expired token' });
+  }
+};
+
+// Apply Firebase authentication middleware to all usage routes
+router.use(authenticateFirebase);
+
+/**
+ * GET /api/usage/me
+ * Current quota status and this month's token usage by session and story
+ */
+router.get('/me', async (req: any, res) => {
+  try {
+    const userId = req.user.id;
+    const [quota, usage] = await Promise.all([
+      usageService.checkQuota(userId, req.usageTier),
+      usageService.getUserUsage(userId)
+    ]);
+
+    res.json({
+      success: true,
+      quota,
+      usage
+    });
+
+  } catch (error) {
+    console.error('❌ Error fetching usage:', error);
+    res.status(500).json({
+      error: 'Failed to fetch usage',
+      details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+    });
+  }
+});
+
+export default router;
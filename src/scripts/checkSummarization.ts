@@ -0,0 +1,115 @@
+/**
+ * Session summarization check.
+ *
+ * Summarizes two made-up transcripts with the mock LLM provider: a short one
+ * that fits a single request, and a long one that is split into chunks and
+ * combined (map-reduce). Checks that both produce the summary, keyEvents,
+ * characterRelationships and lastScene fields session summaries are stored
+ * with, and that every prompt names the story by its title.
+ *
+ * Usage:
+ *   npm run check:summarization
+ *
+ * Exits non-zero when a check fails. Never touches the network.
+ */
+import { LLMProvider, LLMRequest, LLMResponse, LLMStreamChunk } from '../types/llm';
+import { SessionSummary } from '../services/storySessionService';
+import { TranscriptMessage } from '../services/summarizationService';
+
+// Small enough that the long transcript needs several chunks and reduce rounds
+const CHUNK_TOKENS = 300;
+const STORY = { storyId: 'training-grounds', storyTitle: 'The Training Grounds' };
+
+/**
+ * Passes requests to the mock provider, keeping their prompts
+ */
+class RecordingProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly prompts: string[] = [];
+
+  constructor(private provider: LLMProvider) {}
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    this.prompts.push(request.messages.map(message => message.text).join('\n'));
+    return this.provider.generate(request);
+  }
+
+  generateStream(request: LLMRequest): AsyncIterable<LLMStreamChunk> {
+    return this.provider.generateStream(request);
+  }
+}
+
+function transcript(turns: number): TranscriptMessage[] {
+  const messages: TranscriptMessage[] = [];
+  for (let turn = 1; turn <= turns; turn++) {
+    messages.push({ role: 'user', content: `I search the chamber for clue number ${turn}` });
+    messages.push({
+      role: 'assistant',
+      content: `Clue ${turn} turns up beneath the worn table, scratched into the stone in a hand you do not recognise.`
+    });
+  }
+  return messages;
+}
+
+function shapeProblems(summary: SessionSummary): string[] {
+  const problems: string[] = [];
+  if (typeof summary.summary !== 'string' || !summary.summary) problems.push('summary must be a non-empty string');
+  if (!Array.isArray(summary.keyEvents) || summary.keyEvents.some(event => typeof event !== 'string')) {
+    problems.push('keyEvents must be an array of strings');
+  } else if (summary.keyEvents.length === 0 || summary.keyEvents.length > 7) {
+    problems.push(`keyEvents must hold 1-7 events, got ${summary.keyEvents.length}`);
+  }
+  const relationships = summary.characterRelationships;
+  if (!relationships || typeof relationships !== 'object' || Array.isArray(relationships) ||
+      Object.values(relationships).some(value => typeof value !== 'string')) {
+    problems.push('characterRelationships must map character names to strings');
+  }
+  if (typeof summary.lastScene !== 'string' || !summary.lastScene) problems.push('lastScene must be a non-empty string');
+  return problems;
+}
+
+async function main() {
+  const { MockLLMProvider } = await import('../services/llm/mockProvider');
+  const { SummarizationService } = await import('../services/summarizationService');
+
+  const cases = [
+    { name: 'short transcript', turns: 3, mapReduce: false },
+    { name: 'long transcript', turns: 40, mapReduce: true }
+  ];
+  let failures = 0;
+
+  for (const testCase of cases) {
+    const provider = new RecordingProvider(new MockLLMProvider(''));
+    const service = new SummarizationService(provider, CHUNK_TOKENS);
+    const summary = await service.summarizeTranscript(transcript(testCase.turns), STORY);
+
+    const problems = shapeProblems(summary);
+    if (testCase.mapReduce !== provider.prompts.length > 1) {
+      problems.push(`expected ${testCase.mapReduce ? 'several model calls' : 'one model call'}, made ${provider.prompts.length}`);
+    }
+    if (provider.prompts.some(prompt => !prompt.includes(`Story: ${STORY.storyTitle}`))) {
+      problems.push('a prompt does not name the story by its title');
+    }
+
+    console.log(`\n${problems.length === 0 ? '✅' : '❌'} ${testCase.name}: ${testCase.turns * 2} messages, ${provider.prompts.length} model call(s)`);
+    console.log(`  summary: ${summary.summary}`);
+    console.log(`  keyEvents: ${summary.keyEvents?.length ?? 0}, lastScene: ${summary.lastScene}`);
+    for (const problem of problems) {
+      console.log(`  🔻 ${problem}`);
+    }
+    failures += problems.length;
+  }
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} summarization check(s) failed`);
+    process.exit(1);
+  }
+
+  console.log('\n✅ Summarization check complete');
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('❌ Summarization check failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,141 @@
+/**
+ * Turn cache retry check.
+ *
+ * Sends a turn and a retry of it through TurnCacheService at the same time,
+ * the way the stream route does: each request has its own AbortController,
+ * and a produce function that gives up with TurnAbandonedError when its
+ * client disconnects. Checks that
+ *   - a retry shares the original generation instead of starting another,
+ *   - a retry still gets the turn when the original client disconnects,
+ *   - a real failure of the original reaches the retry unchanged.
+ *
+ * Usage:
+ *   npm run check:turn-cache
+ *
+ * Exits non-zero when a check fails.
+ */
+import { TurnAbandonedError, TurnCacheService } from '../services/turnCacheService';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+interface Client {
+  abort: AbortController;
+  produce: () => Promise<string>;
+}
+
+/**
+ * A request whose generation takes generateMs, optionally failing
+ */
+function client(name: string, generations: string[], generateMs: number, failure?: Error): Client {
+  const abort = new AbortController();
+  return {
+    abort,
+    produce: async () => {
+      generations.push(name);
+      await wait(generateMs);
+      if (abort.signal.aborted) {
+        throw new TurnAbandonedError('Stream client disconnected');
+      }
+      if (failure) {
+        throw failure;
+      }
+      return `turn from ${name}`;
+    }
+  };
+}
+
+async function settle<T>(promise: Promise<T>): Promise<{ value?: T; error?: Error }> {
+  try {
+    return { value: await promise };
+  } catch (error) {
+    return { error: error as Error };
+  }
+}
+
+async function main() {
+  const checks: Array<{ name: string; run: () => Promise<string[]> }> = [
+    {
+      name: 'retry shares the original generation',
+      run: async () => {
+        const cache = new TurnCacheService();
+        const generations: string[] = [];
+        const original = client('original', generations, 30);
+        const retry = client('retry', generations, 30);
+        const first = cache.resolve('turn:s:1:f', original.produce);
+        await wait(5);
+        const second = await cache.resolve('turn:s:1:f', retry.produce);
+        await first;
+
+        const problems: string[] = [];
+        if (generations.length !== 1) problems.push(`expected one generation, got ${generations.join(', ')}`);
+        if (second.value !== 'turn from original' || !second.cached) problems.push(`retry got ${JSON.stringify(second)}`);
+        return problems;
+      }
+    },
+    {
+      name: 'retry survives the original client disconnecting',
+      run: async () => {
+        const cache = new TurnCacheService();
+        const generations: string[] = [];
+        const original = client('original', generations, 30);
+        const retry = client('retry', generations, 30);
+        const first = settle(cache.resolve('turn:s:1:f', original.produce));
+        await wait(5);
+        const second = settle(cache.resolve('turn:s:1:f', retry.produce));
+        original.abort.abort();
+
+        const [firstResult, secondResult] = await Promise.all([first, second]);
+        const later = await cache.resolve('turn:s:1:f', client('later', generations, 30).produce);
+
+        const problems: string[] = [];
+        if (!(firstResult.error instanceof TurnAbandonedError)) problems.push('original was not abandoned');
+        if (secondResult.error) problems.push(`retry failed: ${secondResult.error.message}`);
+        else if (secondResult.value?.value !== 'turn from retry') problems.push(`retry got ${JSON.stringify(secondResult.value)}`);
+        if (generations.join(',') !== 'original,retry') problems.push(`generations: ${generations.join(', ')}`);
+        if (later.value !== 'turn from retry' || !later.cached) problems.push('the retry\'s turn was not cached');
+        return problems;
+      }
+    },
+    {
+      name: 'retry sees a real failure of the original',
+      run: async () => {
+        const cache = new TurnCacheService();
+        const generations: string[] = [];
+        const original = client('original', generations, 30, new Error('model unavailable'));
+        const retry = client('retry', generations, 30);
+        const first = settle(cache.resolve('turn:s:1:f', original.produce));
+        await wait(5);
+        const second = await settle(cache.resolve('turn:s:1:f', retry.produce));
+        await first;
+
+        const problems: string[] = [];
+        if (second.error?.message !== 'model unavailable') problems.push(`retry got ${second.error?.message || 'a turn'}`);
+        if (generations.length !== 1) problems.push(`generations: ${generations.join(', ')}`);
+        return problems;
+      }
+    }
+  ];
+
+  let failures = 0;
+  for (const check of checks) {
+    const problems = await check.run();
+    console.log(`${problems.length === 0 ? '✅' : '❌'} ${check.name}`);
+    for (const problem of problems) {
+      console.log(`  🔻 ${problem}`);
+    }
+    failures += problems.length;
+  }
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} turn cache check(s) failed`);
+    process.exit(1);
+  }
+
+  console.log('\n✅ Turn cache check complete');
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('❌ Turn cache check failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,170 @@
+/**
+ * Retrieval quality evaluation.
+ *
+ * Runs the golden queries in each story's retrieval_eval.json through
+ * StoryPromptService.searchStoryContext and reports recall@k and MRR,
+ * comparing against the story's stored retrieval_baseline.json.
+ *
+ * Usage:
+ *   npm run eval:retrieval                      # all stories with an eval file
+ *   npm run eval:retrieval -- --story training-grounds
+ *   npm run eval:retrieval -- --update-baseline # accept current results
+ *
+ * Exits non-zero when any query regresses against the baseline. Embeddings
+ * are forced to the local provider so the run never touches the network.
+ */
+import path from 'path';
+import fs from 'fs/promises';
+
+interface EvalQuery {
+  id: string;
+  query: string;
+  expected: string[];
+  locationId?: string;
+  visitedLocationIds?: string[];
+}
+
+interface EvalFile {
+  k?: number;
+  queries: EvalQuery[];
+}
+
+interface QueryResult {
+  recall: number;
+  reciprocalRank: number;
+  retrieved: string[];
+}
+
+interface Baseline {
+  generatedAt: string;
+  k: number;
+  metrics: { recallAtK: number; mrr: number };
+  queries: Record<string, { recall: number; reciprocalRank: number }>;
+}
+
+const EPSILON = 1e-9;
+const storiesDir = path.join(__dirname, '../../data/stories');
+
+function parseArgs(argv: string[]): { story?: string; updateBaseline: boolean; k?: number } {
+  const args: { story?: string; updateBaseline: boolean; k?: number } = { updateBaseline: false };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--story') args.story = argv[++i];
+    else if (argv[i] === '--update-baseline') args.updateBaseline = true;
+    else if (argv[i] === '--k') args.k = parseInt(argv[++i], 10);
+  }
+  return args;
+}
+
+async function readJson<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+async function main() {
+  // Keep the run offline and deterministic regardless of story config
+  process.env.RETRIEVAL_EMBEDDING_PROVIDER = 'local';
+  const { StoryPromptService } = await import('../services/storyPromptService');
+  const promptService = new StoryPromptService();
+
+  const args = parseArgs(process.argv.slice(2));
+  const storyIds = args.story ? [args.story] : await fs.readdir(storiesDir);
+  let regressions = 0;
+  let evaluated = 0;
+
+  for (const storyId of storyIds) {
+    const evalFile = await readJson<EvalFile>(path.join(storiesDir, storyId, 'retrieval_eval.json'));
+    if (!evalFile) {
+      if (args.story) console.error(`❌ No retrieval_eval.json found for ${storyId}`);
+      continue;
+    }
+
+    const k = args.k || evalFile.k || 5;
+    const results: Record<string, QueryResult> = {};
+
+    for (const evalQuery of evalFile.queries) {
+      const scene = evalQuery.locationId
+        ? { locationId: evalQuery.locationId, visitedLocationIds: evalQuery.visitedLocationIds }
+        : undefined;
+      const hits = await promptService.searchStoryContext(storyId, evalQuery.query, k, scene);
+      const retrieved = hits.map(hit => hit.metadata.id);
+
+      const found = evalQuery.expected.filter(id => retrieved.includes(id));
+      const firstRank = retrieved.findIndex(id => evalQuery.expected.includes(id));
+
+      results[evalQuery.id] = {
+        recall: evalQuery.expected.length > 0 ? found.length / evalQuery.expected.length : 1,
+        reciprocalRank: firstRank === -1 ? 0 : 1 / (firstRank + 1),
+        retrieved
+      };
+    }
+
+    const queryIds = Object.keys(results);
+    const recallAtK = queryIds.reduce((sum, id) => sum + results[id].recall, 0) / Math.max(queryIds.length, 1);
+    const mrr = queryIds.reduce((sum, id) => sum + results[id].reciprocalRank, 0) / Math.max(queryIds.length, 1);
+
+    console.log(`\n📊 Retrieval eval for ${storyId} (${queryIds.length} queries, k=${k})`);
+    for (const evalQuery of evalFile.queries) {
+      const result = results[evalQuery.id];
+      const status = result.recall === 1 ? '✅' : result.recall > 0 ? '⚠️' : '❌';
+      console.log(`  ${status} ${evalQuery.id}: recall=${result.recall.toFixed(2)} rr=${result.reciprocalRank.toFixed(2)} -> [${result.retrieved.join(', ')}]`);
+    }
+    console.log(`  recall@${k}: ${recallAtK.toFixed(4)}  MRR: ${mrr.toFixed(4)}`);
+
+    const baselinePath = path.join(storiesDir, storyId, 'retrieval_baseline.json');
+    const baseline = await readJson<Baseline>(baselinePath);
+
+    if (baseline && baseline.k === k) {
+      console.log(`  baseline recall@${k}: ${baseline.metrics.recallAtK.toFixed(4)}  MRR: ${baseline.metrics.mrr.toFixed(4)}`);
+      for (const id of queryIds) {
+        const previous = baseline.queries[id];
+        if (!previous) continue;
+        const current = results[id];
+        if (current.recall < previous.recall - EPSILON || current.reciprocalRank < previous.reciprocalRank - EPSILON) {
+          regressions++;
+          console.log(`  🔻 Regression in ${id}: recall ${previous.recall.toFixed(2)} -> ${current.recall.toFixed(2)}, rr ${previous.reciprocalRank.toFixed(2)} -> ${current.reciprocalRank.toFixed(2)}`);
+        }
+      }
+    } else if (baseline) {
+      console.log(`  ℹ️ Baseline was recorded with k=${baseline.k}, skipping comparison`);
+    } else {
+      console.log('  ℹ️ No baseline recorded yet (run with --update-baseline)');
+    }
+
+    if (args.updateBaseline) {
+      const newBaseline: Baseline = {
+        generatedAt: new Date().toISOString(),
+        k,
+        metrics: { recallAtK, mrr },
+        queries: Object.fromEntries(queryIds.map(id => [
+          id,
+          { recall: results[id].recall, reciprocalRank: results[id].reciprocalRank }
+        ]))
+      };
+      await fs.writeFile(baselinePath, JSON.stringify(newBaseline, null, 2) + '\n');
+      console.log(`  💾 Baseline updated: ${baselinePath}`);
+    }
+
+    evaluated++;
+  }
+
+  if (evaluated === 0) {
+    console.error('❌ No stories with retrieval_eval.json were evaluated');
+    process.exit(1);
+  }
+
+  if (regressions > 0 && !args.updateBaseline) {
+    console.error(`\n❌ ${regressions} retrieval regression(s) against baseline`);
+    process.exit(1);
+  }
+
+  console.log('\n✅ Retrieval evaluation complete');
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('❌ Retrieval evaluation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,183 @@
+import { LLMProvider } from '../types/llm';
+import {
+  ContentClassification,
+  ContentClassifier,
+  ContentClassifierContext,
+  ContentRating,
+  ModerationMatch,
+  ModerationRule,
+  ModerationSeverity
+} from '../types/moderation';
+import { ModelRouter } from './llm/modelRouter';
+import { CLASSIFICATION_SCHEMA } from './llm/responseSchemas';
+import { UsageService } from './usageService';
+
+export const CONTENT_RATINGS: ContentRating[] = ['everyone', 'teen', 'mature'];
+
+export const MODERATION_SEVERITIES: ModerationSeverity[] = ['none', 'mild', 'moderate', 'severe'];
+
+export function severityRank(severity: ModerationSeverity): number {
+  return MODERATION_SEVERITIES.indexOf(severity);
+}
+
+function maxSeverity(severities: ModerationSeverity[]): ModerationSeverity {
+  return severities.reduce<ModerationSeverity>(
+    (highest, severity) => (severityRank(severity) > severityRank(highest) ? severity : highest),
+    'none'
+  );
+}
+
+// Common character substitutions ("sh1t", "@ss"); one character each, so
+// match offsets in the folded text are offsets in the original
+const FOLDED_CHARACTERS: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's'
+};
+
+function foldText(text: string): string {
+  let folded = '';
+  for (const char of text) {
+    const lower = char.toLowerCase();
+    const mapped = FOLDED_CHARACTERS[char] ?? (lower.length === char.length ? lower : char);
+    folded += mapped;
+  }
+  return folded;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Blocklist classifier: matches each rule's terms on word boundaries,
+ * ignoring case and common character substitutions. Deterministic and
+ * offline, and it locates every match so flagged text can be rewritten.
+ */
+export class RuleBasedContentClassifier implements ContentClassifier {
+  readonly id = 'rules';
+  private compiled: Array<{ rule: ModerationRule; pattern: RegExp }>;
+
+  constructor(rules: ModerationRule[]) {
+    this.compiled = rules
+      .filter(rule => rule.terms.length > 0)
+      .map(rule => {
+        // Longest terms first so "motherfucker" wins over "fucker"
+        const alternatives = [...rule.terms]
+          .sort((a, b) => b.length - a.length)
+          .map(term => escapeRegExp(foldText(term.trim())).replace(/\s+/g, '\\s+'));
+        return {
+          rule,
+          pattern: new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'gu')
+        };
+      });
+  }
+
+  async classify(text: string): Promise<ContentClassification> {
+    const folded = foldText(text);
+    const matches: ModerationMatch[] = [];
+
+    for (const { rule, pattern } of this.compiled) {
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(folded)) !== null) {
+        matches.push({
+          category: rule.category,
+          severity: rule.severity,
+          term: text.slice(match.index, match.index + match[0].length),
+          start: match.index,
+          end: match.index + match[0].length,
+          replacement: rule.replacement
+        });
+      }
+    }
+
+    matches.sort((a, b) => a.start - b.start);
+    return {
+      severity: maxSeverity(matches.map(match => match.severity)),
+      categories: [...new Set(matches.map(match => match.category))],
+      matches,
+      classifier: this.id
+    };
+  }
+}
+
+const CLASSIFIER_INSTRUCTIONS = `You are a content moderator for an interactive fantasy adventure game.
+Rate the text below for content that may be unsuitable: profanity, graphic violence or gore, sexual content, self-harm, hate, drugs.
+Fantasy combat and peril described without graphic detail are fine.
+
+Respond with JSON:
+- label: the highest severity present, one of "none", "mild", "moderate", "severe"
+- confidence: 0-1
+- reasons: the categories found, e.g. ["profanity", "gore"]; empty when label is "none"`;
+
+/**
+ * Model-based classifier using the 'classify' route. It rates whole texts
+ * rather than locating terms, so flagged text cannot be rewritten, only
+ * allowed or blocked. Falls back to the rule-based classifier when the model
+ * call fails or returns an unusable label.
+ */
+export class ModelContentClassifier implements ContentClassifier {
+  readonly id = 'model';
+  private modelRouter = ModelRouter.getInstance();
+  private usageService = UsageService.getInstance();
+
+  constructor(private fallback: ContentClassifier, private llmProvider?: LLMProvider) {}
+
+  async classify(text: string, context: ContentClassifierContext): Promise<ContentClassification> {
+    try {
+      const route = this.modelRouter.resolve('classify');
+      const provider = this.llmProvider || route.provider;
+      const completion = await provider.generate({
+        messages: [{
+          role: 'user',
+          text: `${CLASSIFIER_INSTRUCTIONS}\n\nText (${context.stage === 'input' ? 'written by the player' : 'written by the narrator'}):\n"""\n${text}\n"""`
+        }],
+        model: route.model,
+        responseSchema: route.responseSchema || CLASSIFICATION_SCHEMA,
+        generationConfig: route.generationConfig
+      });
+
+      if (completion.usage) {
+        void this.usageService.recordUsage({
+          userId: context.userId,
+          sessionId: context.sessionId,
+          storyId: context.storyId,
+          provider: completion.provider,
+          model: completion.model,
+          task: 'classify',
+          promptTokens: completion.usage.promptTokens,
+          candidateTokens: completion.usage.candidateTokens,
+          totalTokens: completion.usage.totalTokens
+        });
+      }
+
+      const result = JSON.parse(completion.text);
+      const label = result.label as ModerationSeverity;
+      if (!MODERATION_SEVERITIES.includes(label)) {
+        throw new Error(`unknown moderation label "${result.label}"`);
+      }
+
+      return {
+        severity: label,
+        categories: label === 'none' ? [] : (Array.isArray(result.reasons) ? result.reasons.map(String) : ['unspecified']),
+        matches: [],
+        classifier: this.id
+      };
+    } catch (error) {
+      console.error('❌ Model content classification failed, using rule-based classifier:', error);
+      return this.fallback.classify(text, context);
+    }
+  }
+}
+
+export function getContentClassifier(id: string, rules: ModerationRule[]): ContentClassifier {
+  const ruleBased = new RuleBasedContentClassifier(rules);
+  switch (id) {
+    case 'rules':
+      return ruleBased;
+    case 'model':
+      return new ModelContentClassifier(ruleBased);
+    default:
+      console.warn(`⚠️ Unknown content classifier "${id}", using rules`);
+      return ruleBased;
+  }
+}
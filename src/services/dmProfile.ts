@@ -0,0 +1,210 @@
+// Per-story DM persona and rules: the optional "dmProfile" block of
+// story.json, validated and merged over the defaults when a story loads.
+
+import { ContentRating } from '../types/moderation';
+import { NarrationLength, StoryDmProfile } from '../types/storyContent';
+import { MAX_STORY_CHOICES, MIN_STORY_CHOICES } from './llm/storyTurnSchema';
+
+// Action types with their own guidance template (data/prompts/<version>/actions)
+export const STORY_ACTION_TYPES = ['dialogue', 'decision', 'exploration', 'combat', 'worldbuilding', 'continue'];
+
+export const NARRATION_LENGTHS: NarrationLength[] = ['short', 'medium', 'long'];
+
+const NARRATION_LENGTH_GUIDANCE: Record<NarrationLength, string> = {
+  short: '1 short paragraph, under 120 words',
+  medium: '2-3 paragraphs, about 120-250 words',
+  long: '3-5 paragraphs, about 250-450 words'
+};
+
+// What the narrator may show at each story content rating
+const CONTENT_RATING_GUIDANCE: Record<ContentRating, string> = {
+  everyone: 'Rated everyone: family-friendly content suitable for all ages; no gore, no swearing, peril kept gentle',
+  teen: 'Rated teen: action violence and tense peril are fine, mild language at most; no graphic gore or sexual content',
+  mature: 'Rated mature: darker themes, harsher violence and strong language are allowed when the story calls for them; nothing sexually explicit, no gratuitous cruelty'
+};
+
+const DEATH_RULES = [
+  'Player actions can lead to death through reckless behavior',
+  'Death should be dramatic and educational - show why the action was fatal',
+  'Always provide a clear restart option after death',
+  'Resurrection/revival should acknowledge lessons learned from failure',
+  'Use death as a teaching tool, not just punishment'
+];
+
+const NO_DEATH_RULES = [
+  'The player character cannot die in this story',
+  'Reckless actions lead to setbacks instead: minor injuries, lost items, being driven back or outwitted',
+  'Show why the action failed so the player can learn from it',
+  'Never narrate the character\'s death, even if the player asks for it'
+];
+
+const MAX_TONE_CHARS = 200;
+const MAX_RULES = 20;
+const MAX_RULE_CHARS = 500;
+
+const PROFILE_FIELDS = ['tone', 'allowedActionTypes', 'death', 'choices', 'narrationLength', 'extraRules'];
+
+export const DEFAULT_DM_PROFILE: StoryDmProfile = {
+  tone: 'Dramatic and immersive, with rising tension',
+  allowedActionTypes: null,
+  death: { enabled: true, rules: DEATH_RULES },
+  choices: { min: MIN_STORY_CHOICES, max: MAX_STORY_CHOICES },
+  narrationLength: 'medium',
+  extraRules: []
+};
+
+/**
+ * Validate a story's raw dmProfile block and merge it over the defaults.
+ * Errors are reported relative to the block; the profile is only usable
+ * when there are none.
+ */
+export function resolveDmProfile(raw: any): { profile: StoryDmProfile; errors: string[] } {
+  const errors: string[] = [];
+  if (raw === undefined || raw === null) {
+    return { profile: DEFAULT_DM_PROFILE, errors };
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { profile: DEFAULT_DM_PROFILE, errors: ['dmProfile must be an object'] };
+  }
+
+  for (const field of Object.keys(raw)) {
+    if (!PROFILE_FIELDS.includes(field)) {
+      errors.push(`dmProfile: unknown field "${field}"`);
+    }
+  }
+
+  const profile: StoryDmProfile = {
+    ...DEFAULT_DM_PROFILE,
+    death: { ...DEFAULT_DM_PROFILE.death },
+    choices: { ...DEFAULT_DM_PROFILE.choices }
+  };
+
+  if (raw.tone !== undefined) {
+    if (typeof raw.tone !== 'string' || !raw.tone.trim() || raw.tone.length > MAX_TONE_CHARS) {
+      errors.push(`dmProfile.tone must be a non-empty string of at most ${MAX_TONE_CHARS} characters`);
+    } else {
+      profile.tone = raw.tone.trim();
+    }
+  }
+
+  if (raw.allowedActionTypes !== undefined) {
+    if (!Array.isArray(raw.allowedActionTypes) || raw.allowedActionTypes.length === 0) {
+      errors.push('dmProfile.allowedActionTypes must be a non-empty array');
+    } else {
+      const types = raw.allowedActionTypes.map((type: any) => (typeof type === 'string' ? type.toLowerCase() : type));
+      const unknown = types.filter((type: any) => !STORY_ACTION_TYPES.includes(type));
+      if (unknown.length > 0) {
+        errors.push(`dmProfile.allowedActionTypes: unknown action types ${unknown.map(String).join(', ')} (expected ${STORY_ACTION_TYPES.join(', ')})`);
+      } else {
+        profile.allowedActionTypes = Array.from(new Set<string>(types));
+      }
+    }
+  }
+
+  if (raw.death !== undefined) {
+    const death = raw.death;
+    if (!death || typeof death !== 'object' || Array.isArray(death)) {
+      errors.push('dmProfile.death must be an object');
+    } else {
+      if (death.enabled !== undefined && typeof death.enabled !== 'boolean') {
+        errors.push('dmProfile.death.enabled must be a boolean');
+      } else if (death.enabled === false) {
+        profile.death = { enabled: false, rules: NO_DEATH_RULES };
+      }
+      if (death.rules !== undefined) {
+        const rules = checkRules('dmProfile.death.rules', death.rules, errors);
+        if (rules) profile.death.rules = rules;
+      }
+    }
+  }
+
+  if (raw.choices !== undefined) {
+    const choices = raw.choices;
+    if (!choices || typeof choices !== 'object' || Array.isArray(choices)) {
+      errors.push('dmProfile.choices must be an object');
+    } else {
+      const min = choices.min ?? profile.choices.min;
+      const max = choices.max ?? profile.choices.max;
+      const inRange = (value: any) =>
+        Number.isInteger(value) && value >= MIN_STORY_CHOICES && value <= MAX_STORY_CHOICES;
+      if (!inRange(min) || !inRange(max)) {
+        errors.push(`dmProfile.choices.min and max must be whole numbers from ${MIN_STORY_CHOICES} to ${MAX_STORY_CHOICES}`);
+      } else if (min > max) {
+        errors.push(`dmProfile.choices.min (${min}) is greater than max (${max})`);
+      } else {
+        profile.choices = { min, max };
+      }
+    }
+  }
+
+  if (raw.narrationLength !== undefined) {
+    if (!NARRATION_LENGTHS.includes(raw.narrationLength)) {
+      errors.push(`dmProfile.narrationLength must be one of ${NARRATION_LENGTHS.join(', ')}`);
+    } else {
+      profile.narrationLength = raw.narrationLength;
+    }
+  }
+
+  if (raw.extraRules !== undefined) {
+    const rules = checkRules('dmProfile.extraRules', raw.extraRules, errors);
+    if (rules) profile.extraRules = rules;
+  }
+
+  return { profile, errors };
+}
+
+/**
+ * Whether a story lets players send an action type. Requests without one
+ * are always allowed.
+ */
+export function isActionTypeAllowed(profile: StoryDmProfile, actionType?: string): boolean {
+  if (!actionType || !profile.allowedActionTypes) {
+    return true;
+  }
+  return profile.allowedActionTypes.includes(String(actionType).toLowerCase());
+}
+
+/**
+ * Variables the system prompt template renders a profile with
+ */
+/**
+ * Content guidelines for the system prompt at a story's content rating
+ */
+export function contentRatingTemplateVariables(rating: ContentRating): Record<string, string> {
+  return { contentRating: CONTENT_RATING_GUIDANCE[rating] };
+}
+
+export function dmProfileTemplateVariables(profile: StoryDmProfile): Record<string, string | number> {
+  const storyRules = [
+    ...(profile.allowedActionTypes
+      ? [`Only offer choices the player can take as one of: ${profile.allowedActionTypes.join(', ')}`]
+      : []),
+    ...profile.extraRules
+  ];
+
+  return {
+    tone: profile.tone,
+    narrationLength: NARRATION_LENGTH_GUIDANCE[profile.narrationLength],
+    deathRules: toBullets(profile.death.rules),
+    minChoices: profile.choices.min,
+    maxChoices: profile.choices.max,
+    storyRules: storyRules.length > 0 ? `\n\nSTORY RULES:\n${toBullets(storyRules)}` : ''
+  };
+}
+
+function checkRules(field: string, value: any, errors: string[]): string[] | null {
+  if (!Array.isArray(value) || value.length > MAX_RULES) {
+    errors.push(`${field} must be an array of at most ${MAX_RULES} rules`);
+    return null;
+  }
+  const invalid = value.findIndex((rule: any) => typeof rule !== 'string' || !rule.trim() || rule.length > MAX_RULE_CHARS);
+  if (invalid !== -1) {
+    errors.push(`${field}[${invalid}] must be a non-empty string of at most ${MAX_RULE_CHARS} characters`);
+    return null;
+  }
+  return value.map((rule: string) => rule.trim());
+}
+
+function toBullets(lines: string[]): string {
+  return lines.map(line => `- ${line}`).join('\n');
+}
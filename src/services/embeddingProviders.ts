@@ -0,0 +1,192 @@
+import { EmbeddingProvider } from '../types/retrieval';
+import { analyze, tokenize } from '../utils/textAnalysis';
+import { CircuitBreaker } from './llm/circuitBreaker';
+import { LLMCircuitOpenError, LLMProviderError, LLMTimeoutError, providerErrorFromResponse } from './llm/errors';
+
+const LOCAL_DIMENSIONS = 512;
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * 32-bit FNV-1a hash, used to place features into vector buckets
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Deterministic offline embeddings built from hashed word stems and
+ * character n-grams. Captures morphological overlap ("walls"/"wall",
+ * "voice"/"voices") without any network access.
+ */
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+  readonly id = 'local';
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+    const addFeature = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+      vector[hash % LOCAL_DIMENSIONS] += sign * weight;
+    };
+
+    for (const term of analyze(text)) {
+      addFeature(`w:${term}`, 1.0);
+    }
+
+    for (const token of tokenize(text)) {
+      if (token.length < 3) continue;
+      const padded = `#${token}#`;
+      for (const n of [3, 4]) {
+        for (let i = 0; i + n <= padded.length; i++) {
+          addFeature(`c${n}:${padded.slice(i, i + n)}`, 0.5);
+        }
+      }
+    }
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * Embeddings from the Gemini embedding API. Each call is bounded by
+ * EMBEDDING_TIMEOUT_MS and shares the LLM circuit breaker settings, so a
+ * stalled or failing endpoint costs a turn at most one timeout and then
+ * fails fast; callers fall back to keyword retrieval.
+ */
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly id = 'gemini';
+  private apiKey: string;
+  private model = 'text-embedding-004';
+  private baseURL = 'https://generativelanguage.googleapis.com/v1beta/models';
+  private timeoutMs = envNumber('EMBEDDING_TIMEOUT_MS', 10000);
+  private breaker = new CircuitBreaker(
+    envNumber('LLM_CIRCUIT_FAILURE_THRESHOLD', 5),
+    envNumber('LLM_CIRCUIT_COOLDOWN_MS', 30000)
+  );
+
+  constructor(apiKey: string = process.env.GOOGLE_GENAI_API_KEY || '') {
+    this.apiKey = apiKey;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.apiKey) {
+      throw new Error('GOOGLE_GENAI_API_KEY is required for Gemini embeddings');
+    }
+
+    const vectors: number[][] = [];
+    // The batch endpoint accepts at most 100 requests per call
+    for (let start = 0; start < texts.length; start += 100) {
+      vectors.push(...await this.embedBatch(texts.slice(start, start + 100)));
+    }
+    return vectors;
+  }
+
+  private async embedBatch(batch: string[]): Promise<number[][]> {
+    if (!this.breaker.tryAcquire()) {
+      throw new LLMCircuitOpenError('gemini-embeddings', this.breaker.retryAfterMs());
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await fetch(`${this.baseURL}/${this.model}:batchEmbedContents?key=${this.apiKey}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          requests: batch.map(text => ({
+            model: `models/${this.model}`,
+            content: { parts: [{ text }] }
+          }))
+        }),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw await providerErrorFromResponse('gemini-embeddings', 'Gemini embedding', response);
+      }
+
+      const data = await response.json() as any;
+      this.breaker.recordSuccess();
+      return (data.embeddings || []).map((embedding: any) => embedding.values);
+    } catch (error) {
+      const failure = this.classify(error, controller.signal.aborted);
+      if (failure instanceof LLMProviderError && failure.retryable) {
+        this.breaker.recordFailure();
+      } else {
+        this.breaker.recordSuccess();
+      }
+      throw failure;
+    } finally {
+      clearTimeout(timer);
+      this.breaker.releaseTrial();
+    }
+  }
+
+  private classify(error: unknown, timedOut: boolean): Error {
+    if (timedOut) {
+      return new LLMTimeoutError('gemini-embeddings', this.timeoutMs);
+    }
+    // fetch rejects with a TypeError on connection failures
+    if (error instanceof TypeError) {
+      return new LLMProviderError(`gemini-embeddings network error: ${error.message}`, { provider: 'gemini-embeddings', retryable: true });
+    }
+    return error as Error;
+  }
+}
+
+const providers = new Map<string, EmbeddingProvider>();
+
+/**
+ * Get a shared embedding provider by id, defaulting to the local provider
+ */
+export function getEmbeddingProvider(id: string): EmbeddingProvider {
+  let provider = providers.get(id);
+  if (!provider) {
+    switch (id) {
+      case 'gemini':
+        provider = new GeminiEmbeddingProvider();
+        break;
+      case 'local':
+        provider = new LocalHashEmbeddingProvider();
+        break;
+      default:
+        console.warn(`⚠️ Unknown embedding provider "${id}", using local embeddings`);
+        provider = new LocalHashEmbeddingProvider();
+    }
+    providers.set(id, provider);
+  }
+  return provider;
+}
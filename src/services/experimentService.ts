@@ -0,0 +1,200 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDatabase } from '../config/database';
+import { PromptAssignment, PromptExperimentConfig } from '../types/prompt';
+import { PromptTemplateService } from './promptTemplateService';
+
+const DEFAULT_EXPERIMENTS_FILE = path.join(__dirname, '../../data/prompts/experiments.json');
+
+const CREATE_PROMPT_TURNS_TABLE = `
+  CREATE TABLE IF NOT EXISTS prompt_turns (
+    id BIGSERIAL PRIMARY KEY,
+    user_id TEXT,
+    session_id TEXT,
+    story_id TEXT NOT NULL,
+    prompt_version TEXT NOT NULL,
+    experiment_id TEXT,
+    arm TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  );
+  CREATE INDEX IF NOT EXISTS idx_prompt_turns_experiment ON prompt_turns (experiment_id, arm);
+`;
+
+export interface PromptTurnRecord {
+  userId?: string;
+  sessionId?: string;
+  storyId: string;
+  assignment: PromptAssignment;
+}
+
+export interface ExperimentArmReport {
+  arm: string;
+  promptVersion: string;
+  users: number;
+  sessions: number;
+  turns: number;
+  turnsPerSession: number;
+  completedSessions: number;
+  completionRate: number;
+}
+
+/**
+ * Assigns prompt template versions, optionally through an A/B experiment
+ * (data/prompts/experiments.json or PROMPT_EXPERIMENTS_FILE).
+ *
+ * Bucketing is sticky without storing anything: a user (or, for anonymous
+ * play, a session) is hashed together with the experiment id, so they keep
+ * their arm across requests and restarts but are reshuffled for a new
+ * experiment. Every generated turn is recorded with its version and arm so
+ * arms can be compared on turns per session and session completion.
+ */
+export class ExperimentService {
+  private static instance: ExperimentService;
+  private config: PromptExperimentConfig;
+  private schemaReady: Promise<void> | null = null;
+
+  constructor(
+    experimentsFile: string = process.env.PROMPT_EXPERIMENTS_FILE || DEFAULT_EXPERIMENTS_FILE,
+    private templates: PromptTemplateService = PromptTemplateService.getInstance()
+  ) {
+    this.config = this.loadConfig(experimentsFile);
+  }
+
+  static getInstance(): ExperimentService {
+    if (!ExperimentService.instance) {
+      ExperimentService.instance = new ExperimentService();
+    }
+    return ExperimentService.instance;
+  }
+
+  getConfig(): PromptExperimentConfig {
+    return this.config;
+  }
+
+  /**
+   * Prompt version for a user or session. Requests with neither get the
+   * default version and stay outside the experiment.
+   */
+  assign(subjectId?: string): PromptAssignment {
+    const experiment = this.config.experiment;
+    if (!experiment || !subjectId) {
+      return { version: this.config.defaultVersion };
+    }
+
+    const totalWeight = experiment.arms.reduce((sum, arm) => sum + arm.weight, 0);
+    const hash = crypto.createHash('sha256').update(`${experiment.id}:${subjectId}`).digest();
+    let point = (hash.readUInt32BE(0) / 0x100000000) * totalWeight;
+    for (const arm of experiment.arms) {
+      point -= arm.weight;
+      if (point < 0) {
+        return { version: arm.version, experimentId: experiment.id, arm: arm.id };
+      }
+    }
+
+    const last = experiment.arms[experiment.arms.length - 1];
+    return { version: last.version, experimentId: experiment.id, arm: last.id };
+  }
+
+  /**
+   * Record a generated turn in the background; never fails the turn
+   */
+  async recordTurn(record: PromptTurnRecord): Promise<void> {
+    try {
+      await this.ensureSchema();
+      await getDatabase().query(
+        `INSERT INTO prompt_turns (user_id, session_id, story_id, prompt_version, experiment_id, arm)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          record.userId || null,
+          record.sessionId || null,
+          record.storyId,
+          record.assignment.version,
+          record.assignment.experimentId || null,
+          record.assignment.arm || null
+        ]
+      );
+    } catch (error) {
+      console.error('❌ Failed to record prompt turn:', error);
+    }
+  }
+
+  /**
+   * Engagement per arm of an experiment: turns per session and the share of
+   * sessions that reached completion
+   */
+  async getReport(experimentId: string): Promise<ExperimentArmReport[]> {
+    await this.ensureSchema();
+    const result = await getDatabase().query(
+      `SELECT t.arm, t.prompt_version,
+              COUNT(DISTINCT t.user_id) AS users,
+              COUNT(DISTINCT t.session_id) AS sessions,
+              COUNT(*) AS turns,
+              COUNT(DISTINCT t.session_id) FILTER (WHERE s.status = 'completed') AS completed_sessions
+       FROM prompt_turns t
+       LEFT JOIN story_sessions s ON s.id::text = t.session_id
+       WHERE t.experiment_id = $1
+       GROUP BY t.arm, t.prompt_version
+       ORDER BY t.arm`,
+      [experimentId]
+    );
+
+    return result.rows.map(row => {
+      const sessions = Number(row.sessions);
+      const completedSessions = Number(row.completed_sessions);
+      return {
+        arm: row.arm,
+        promptVersion: row.prompt_version,
+        users: Number(row.users),
+        sessions,
+        turns: Number(row.turns),
+        turnsPerSession: sessions > 0 ? Math.round((Number(row.turns) / sessions) * 100) / 100 : 0,
+        completedSessions,
+        completionRate: sessions > 0 ? Math.round((completedSessions / sessions) * 1000) / 1000 : 0
+      };
+    });
+  }
+
+  private loadConfig(experimentsFile: string): PromptExperimentConfig {
+    const resolved = path.resolve(process.cwd(), experimentsFile);
+    const config: PromptExperimentConfig = fs.existsSync(resolved)
+      ? JSON.parse(fs.readFileSync(resolved, 'utf-8'))
+      : { defaultVersion: 'v1', experiment: null };
+
+    if (!this.templates.hasVersion(config.defaultVersion)) {
+      throw new Error(`Default prompt version "${config.defaultVersion}" in ${resolved} has no templates`);
+    }
+
+    const experiment = config.experiment;
+    if (experiment) {
+      if (!experiment.id || !Array.isArray(experiment.arms) || experiment.arms.length === 0) {
+        throw new Error(`Prompt experiment in ${resolved} needs an id and at least one arm`);
+      }
+      for (const arm of experiment.arms) {
+        if (!arm.id || !this.templates.hasVersion(arm.version)) {
+          throw new Error(`Arm "${arm.id}" of experiment "${experiment.id}" uses unknown prompt version "${arm.version}"`);
+        }
+        if (typeof arm.weight !== 'number' || arm.weight <= 0) {
+          throw new Error(`Arm "${arm.id}" of experiment "${experiment.id}" needs a positive weight`);
+        }
+      }
+      console.log(`🧪 Prompt experiment "${experiment.id}": ${experiment.arms.map(arm => `${arm.id}=${arm.version} (${arm.weight})`).join(', ')}`);
+    }
+
+    return config;
+  }
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = getDatabase()
+        .query(CREATE_PROMPT_TURNS_TABLE)
+        .then(() => undefined)
+        .catch(error => {
+          // Retry on the next call
+          this.schemaReady = null;
+          throw error;
+        });
+    }
+    return this.schemaReady;
+  }
+}
@@ -1,18 +1,129 @@
 import { StoryPromptService } from './storyPromptService';
+import { UsageService } from './usageService';
+import { ModerationService } from './moderationService';
+import { ItemGrantValidator } from './itemGrantValidator';
+import { ExperimentService } from './experimentService';
+import { SessionStateService } from './sessionStateService';
+import { LocationGraphService } from './locationGraphService';
+import { QuestService } from './questService';
+import { StoryContentRegistry } from './storyContentRegistry';
+import { PromptTemplateService } from './promptTemplateService';
+import { dmProfileTemplateVariables } from './dmProfile';
+import { SceneFilter } from '../types/retrieval';
+import { InjectionAssessment, PromptAssignment, PromptBudgetReport } from '../types/prompt';
+import { ModerationDecision } from '../types/moderation';
+import { RejectedItemGrant } from '../types/inventory';
+import { StoryDmProfile, StoryEnding } from '../types/storyContent';
+import { LocationExit, LocationUpdate, QuestView, SessionLocation } from '../types/sessionState';
+import { delimitPlayerText } from '../utils/promptSafety';
+import { LLMMessage, LLMProvider, LLMRequest, LLMTask, LLMUsage } from '../types/llm';
+import { ModelRouter, ResolvedRoute } from './llm/modelRouter';
+import { normalizeStoryTurn, validateStoryTurn } from './llm/storyTurnSchema';
+import { SchemaViolation } from './llm/schemaValidator';
+import { TurnValidationMetrics } from './llm/turnValidationMetrics';
+import { NarrativeStreamParser } from './llm/narrativeStreamParser';
+
+// How much of an invalid response is echoed back in the repair request
+const MAX_REPAIR_ECHO_CHARS = 12000;
+
+// Streamed narrative held back waiting for a sentence to end before it is
+// moderated and sent anyway, cut at the last space
+const MAX_HELD_NARRATIVE_CHARS = 400;
+
+/**
+ * Length of the leading part of streamed narrative that ends on a sentence
+ * or line break, or 0 while the first sentence is still being written
+ */
+function completeSentencesLength(text: string): number {
+  let end = 0;
+  for (const match of text.matchAll(/[.!?…]["'”’)\]]*\s+|\n+/g)) {
+    end = (match.index ?? 0) + match[0].length;
+  }
+  if (end === 0 && text.length > MAX_HELD_NARRATIVE_CHARS) {
+    end = text.lastIndexOf(' ') + 1;
+  }
+  return end;
+}
+
+export interface StoryTurnResult {
+  response: any;
+  contextUsed: Array<{ content: string; metadata: any }>;
+  sources: string[];
+  inventoryChanges?: any;
+  promptBudget: PromptBudgetReport;
+  moderation: { input: ModerationDecision; output: ModerationDecision };
+  // Heuristics the player's message tripped (see assessInjection)
+  injectionSignals: string[];
+  // items_gained entries removed because the story state did not justify them
+  rejectedItems: RejectedItemGrant[];
+  // Prompt template version (and experiment arm) the turn was generated with
+  prompt: PromptAssignment;
+  // Where the turn left the player; not persisted until the caller saves it
+  location: LocationUpdate;
+  // Story flags the turn set, limited to those of active objectives
+  flagsSet: string[];
+  // The player character died in this turn, in a story that allows death
+  playerDied: boolean;
+}
+
+export interface PreparedTurn {
+  storyId: string;
+  sessionId?: string;
+  userId?: string;
+  provider: LLMProvider;
+  request: LLMRequest;
+  contextUsed: Array<{ content: string; metadata: any }>;
+  promptBudget: PromptBudgetReport;
+  // Hash of the enhanced prompt minus inventory/world state (see PromptSection.volatile)
+  promptFingerprint: string;
+  inputModeration: ModerationDecision;
+  // The player's message after moderation, as sent to the model
+  playerMessage: string;
+  injection: InjectionAssessment;
+  prompt: PromptAssignment;
+  // The story's DM profile; its choice range is enforced on the turn
+  dmProfile: StoryDmProfile;
+  // The session's location when the turn started
+  location: SessionLocation;
+  // Exits from that location; null when the story has no location graph
+  exits: LocationExit[] | null;
+  // The session's quests when the turn started
+  quests: QuestView[];
+}
 
 export class GeminiRAGService {
   private ragService: StoryPromptService;
-  private apiKey: string;
-  private baseURL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent';
+  private modelRouter: ModelRouter;
+  // Optional provider override for every task (e.g. a mock in scripts)
+  private llmProvider?: LLMProvider;
+  private usageService: UsageService;
+  private moderationService: ModerationService;
+  private itemGrantValidator: ItemGrantValidator;
+  private experimentService: ExperimentService;
+  private sessionStateService: SessionStateService;
+  private locationGraph: LocationGraphService;
+  private questService: QuestService;
+  private contentRegistry: StoryContentRegistry;
+  private promptTemplates: PromptTemplateService;
 
-  constructor() {
+  constructor(llmProvider?: LLMProvider) {
     this.ragService = new StoryPromptService();
-    this.apiKey = process.env.GOOGLE_GENAI_API_KEY || '';
+    this.modelRouter = ModelRouter.getInstance();
+    this.llmProvider = llmProvider;
+    this.usageService = UsageService.getInstance();
+    this.moderationService = ModerationService.getInstance();
+    this.itemGrantValidator = new ItemGrantValidator();
+    this.experimentService = ExperimentService.getInstance();
+    this.sessionStateService = SessionStateService.getInstance();
+    this.locationGraph = LocationGraphService.getInstance();
+    this.questService = QuestService.getInstance();
+    this.contentRegistry = StoryContentRegistry.getInstance();
+    this.promptTemplates = PromptTemplateService.getInstance();
   }
 
   /**
    * Generate story response with RAG enhancement
-   * Uses the same Gemini API pattern as your iOS app
+   * The model is chosen by the 'narrate' route of the LLM routing table
    */
   async generateStoryWithRAG(
     storyId: string,
@@ -21,241 +132,458 @@ export class GeminiRAGService {
     actionType?: string,
     sessionId?: string,
     userId?: string
-  ): Promise<{
-    response: string;
-    contextUsed: Array<{ content: string; metadata: any }>;
-    sources: string[];
-    inventoryChanges?: any;
-  }> {
+  ): Promise<StoryTurnResult> {
+    const prepared = await this.prepareTurn(storyId, userMessage, conversationHistory, actionType, sessionId, userId);
+    return this.completeTurn(prepared);
+  }
+
+  /**
+   * Call the model for a prepared turn, then validate and moderate its response
+   */
+  async completeTurn(prepared: PreparedTurn): Promise<StoryTurnResult> {
     try {
-      // Get enhanced prompt with story context
-      // For now, use a default location - this can be enhanced later to extract from context
-      const defaultLocation = 'training_grounds';
-      const { enhancedPrompt, contextUsed } = await this.ragService.generateEnhancedPrompt(
-        storyId,
-        userMessage,
-        conversationHistory,
-        actionType,
-        userId,
-        sessionId,
-        defaultLocation
-      );
+      const completion = await prepared.provider.generate(prepared.request);
+      this.trackUsage(prepared, 'narrate', completion.provider, completion.model, completion.usage);
 
-      // Build conversation contents (same as iOS GeminiService)
-      const contents: any[] = [];
+      // Log the raw response for debugging
+      console.log(`🤖 Raw ${completion.provider} response:`, completion.text);
 
-      // Add conversation history
-      for (const message of conversationHistory.slice(-10)) { // Limit history
-        const role = message.role === 'user' ? 'user' : 'model';
-        contents.push({
-          role: role,
-          parts: [{ text: message.content }]
-        });
-      }
+      return await this.buildResult(await this.resolveTurn(completion.text, prepared), prepared);
 
-      // Add current user message with enhanced context
-      contents.push({
-        role: 'user',
-        parts: [{ text: enhancedPrompt }]
-      });
+    } catch (error) {
+      console.error('❌ Error in RAG story generation:', error);
+      throw error;
+    }
+  }
 
-      const requestBody = {
-        contents: contents,
-        generationConfig: {
-          temperature: 0.85,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 4000, // Increased from 1200 to handle large inventories with detailed descriptions
-          candidateCount: 1,
-          responseMimeType: 'application/json',
-          responseSchema: {
-            type: 'OBJECT',
-            properties: {
-              narrative: {
-                type: 'STRING',
-                description: 'The story continuation narration'
-              },
-              choices: {
-                type: 'ARRAY',
-                items: {
-                  type: 'OBJECT',
-                  properties: {
-                    id: {
-                      type: 'STRING',
-                      description: 'Unique identifier for the choice'
-                    },
-                    text: {
-                      type: 'STRING',
-                      description: 'The action text for the choice'
-                    },
-                    hint: {
-                      type: 'STRING',
-                      description: 'Optional hint about consequences'
-                    }
-                  },
-                  required: ['id', 'text']
-                }
-              },
-              context: {
-                type: 'OBJECT',
-                properties: {
-                  location: { type: 'STRING' },
-                  tension: { 
-                    type: 'STRING',
-                    enum: ['low', 'medium', 'high', 'critical']
-                  },
-                  momentum: {
-                    type: 'STRING', 
-                    enum: ['stalled', 'slow', 'steady', 'fast']
-                  }
-                }
-              },
-              inventory_changes: {
-                type: 'OBJECT',
-                properties: {
-                  items_gained: {
-                    type: 'ARRAY',
-                    items: {
-                      type: 'OBJECT',
-                      properties: {
-                        id: { type: 'STRING' },
-                        name: { type: 'STRING' },
-                        description: { type: 'STRING' },
-                        quantity: { type: 'NUMBER' },
-                        source: { type: 'STRING' },
-                        rarity: { 
-                          type: 'STRING',
-                          enum: ['common', 'uncommon', 'rare', 'epic', 'legendary']
-                        },
-                        category: { type: 'STRING' },
-                        magical: { type: 'BOOLEAN' },
-                        properties: { 
-                          type: 'ARRAY', 
-                          items: { type: 'STRING' }
-                        }
-                      },
-                      required: ['id', 'name']
-                    }
-                  },
-                  items_lost: {
-                    type: 'ARRAY',
-                    items: {
-                      type: 'OBJECT',
-                      properties: {
-                        id: { type: 'STRING' },
-                        name: { type: 'STRING' },
-                        quantity: { type: 'NUMBER' },
-                        reason: { type: 'STRING' }
-                      },
-                      required: ['id', 'name']
-                    }
-                  },
-                  gold_change: { type: 'NUMBER' }
-                }
-              }
-            },
-            required: ['narrative', 'choices']
-          }
-        },
-        safetySettings: [
-          { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
-          { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
-          { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
-          { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' }
-        ]
+  /**
+   * Streaming variant of completeTurn: narrative text is passed to
+   * onNarrative sentence by sentence as it is generated, each sentence
+   * moderated first, and the parsed turn is returned once the stream
+   * completes. If the turn needed repair, the returned narrative is
+   * authoritative over the streamed text.
+   */
+  async streamTurn(
+    prepared: PreparedTurn,
+    onNarrative: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<StoryTurnResult> {
+    try {
+      const { storyId, sessionId, userId } = prepared;
+      const parser = new NarrativeStreamParser();
+      let usage: LLMUsage | undefined;
+      let model: string | undefined;
+      // Narrative not yet shown; it is held back until a sentence ends so
+      // moderation sees whole terms
+      let pending = '';
+      const emit = async (text: string) => {
+        if (text) {
+          onNarrative(await this.moderationService.moderateNarrativeChunk(text, { storyId, sessionId, userId }));
+        }
       };
 
-      // Make API call to Gemini (same pattern as iOS)
-      const response = await fetch(`${this.baseURL}?key=${this.apiKey}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody)
+      for await (const chunk of prepared.provider.generateStream({ ...prepared.request, signal })) {
+        // Streams report cumulative usage; the last report covers the whole call
+        usage = chunk.usage || usage;
+        model = chunk.model || model;
+        pending += parser.push(chunk.text);
+        const end = completeSentencesLength(pending);
+        if (end > 0) {
+          await emit(pending.slice(0, end));
+          pending = pending.slice(end);
+        }
+      }
+      await emit(pending);
+
+      this.trackUsage(prepared, 'narrate', prepared.provider.name, model || prepared.request.model || 'unknown', usage);
+      console.log(`🤖 Raw ${prepared.provider.name} streamed response:`, parser.text);
+
+      return await this.buildResult(await this.resolveTurn(parser.text, prepared), prepared);
+
+    } catch (error) {
+      console.error('❌ Error in streamed RAG story generation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Closing narration for a session that reached an ending, from the
+   * 'epilogue' model route. Falls back to the ending's description when
+   * generation fails or moderation blocks it, so the ending still lands.
+   */
+  async generateEpilogue(prepared: PreparedTurn, finalScene: string, ending: StoryEnding): Promise<string> {
+    const { storyId, sessionId, userId } = prepared;
+    const fallback = ending.description || `Your story ends: ${ending.name}.`;
+    try {
+      const pack = await this.contentRegistry.getPack(storyId);
+      const prompt = this.promptTemplates.renderEpilogue(prepared.prompt.version, {
+        ...dmProfileTemplateVariables(prepared.dmProfile),
+        storyName: pack?.story?.name || storyId,
+        endingName: ending.name,
+        endingDescription: ending.description ? ` - ${ending.description}` : '',
+        finalScene
+      });
+
+      const route = this.route('epilogue');
+      const completion = await route.provider.generate({
+        messages: [{ role: 'user', text: prompt }],
+        model: route.model,
+        responseSchema: route.responseSchema,
+        generationConfig: route.generationConfig,
+        contentRating: prepared.request.contentRating
       });
+      this.trackUsage(prepared, 'epilogue', completion.provider, completion.model, completion.usage);
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(`Gemini API error: ${response.status} - ${(errorData as any)?.error?.message || 'Unknown error'}`);
+      const epilogue = this.parseTurnJson(completion.text).value?.epilogue;
+      if (typeof epilogue !== 'string' || !epilogue.trim()) {
+        throw new Error('response has no epilogue text');
       }
+      const moderated = await this.moderationService.moderateTurn(
+        { narrative: epilogue.trim(), choices: [] },
+        { storyId, sessionId, userId }
+      );
+      return moderated.turn.narrative;
+    } catch (error) {
+      console.error(`❌ Failed to generate the epilogue for ending ${ending.id}, using its description:`, error);
+      return fallback;
+    }
+  }
+
+  /**
+   * Moderate the player's message, then build the enhanced prompt and the
+   * provider request for a turn. Throws ContentBlockedError for blocked input.
+   */
+  async prepareTurn(
+    storyId: string,
+    userMessage: string,
+    conversationHistory: Array<{ role: string; content: string }> = [],
+    actionType?: string,
+    sessionId?: string,
+    userId?: string
+  ): Promise<PreparedTurn> {
+    const { text: moderatedMessage, decision: inputModeration } = await this.moderationService.moderateInput(
+      userMessage,
+      { storyId, sessionId, userId }
+    );
+
+    // Sticky per user (or session), so a player keeps one DM style
+    const promptAssignment = this.experimentService.assign(userId || sessionId);
+
+    // Retrieval and world state follow the session's location
+    const location = await this.sessionStateService.getLocation(storyId, sessionId);
+    const exits = await this.locationGraph.getExits(storyId, location, userId, sessionId);
+    const scene: SceneFilter | undefined = location.locationId
+      ? { locationId: location.locationId, visitedLocationIds: location.visitedLocationIds }
+      : undefined;
+    const { quests } = await this.questService.getProgress(storyId, location, userId, sessionId);
+
+    const {
+      enhancedPrompt,
+      contextUsed,
+      promptBudget,
+      promptFingerprint,
+      systemInstruction,
+      injection,
+      dmProfile,
+      contentRating
+    } = await this.ragService.generateEnhancedPrompt(
+      storyId,
+      moderatedMessage,
+      conversationHistory,
+      actionType,
+      userId,
+      sessionId,
+      scene,
+      promptAssignment.version,
+      exits,
+      quests
+    );
+
+    const route = this.route('narrate');
+
+    // Conversation history followed by the current user message with enhanced
+    // context; earlier player messages are delimited like the current one
+    const messages: LLMMessage[] = conversationHistory.slice(-10).map(message => ({ // Limit history
+      role: message.role === 'user' ? 'user' : 'model',
+      text: message.role === 'user' ? delimitPlayerText(message.content) : message.content
+    }));
+    messages.push({ role: 'user', text: enhancedPrompt });
+
+    return {
+      storyId,
+      sessionId,
+      userId,
+      provider: route.provider,
+      request: {
+        messages,
+        systemInstruction,
+        model: route.model,
+        responseSchema: route.responseSchema,
+        generationConfig: route.generationConfig,
+        contentRating
+      },
+      contextUsed,
+      promptBudget,
+      promptFingerprint,
+      inputModeration,
+      playerMessage: moderatedMessage,
+      injection,
+      prompt: promptAssignment,
+      dmProfile,
+      location,
+      exits,
+      quests
+    };
+  }
+
+  /**
+   * Validate the model's story turn. An invalid turn gets one repair
+   * round-trip that shows the model its validation errors; if that still
+   * fails, the best candidate is normalized locally. Normalization cannot
+   * undo an illegal move, which is then rejected in buildResult.
+   */
+  private async resolveTurn(generatedText: string, prepared: PreparedTurn): Promise<any> {
+    const { request } = prepared;
+    const choiceRange = prepared.dmProfile.choices;
+    const metrics = TurnValidationMetrics.getInstance();
+    const original = this.parseTurnJson(generatedText);
+    const violations = original.violations || await this.validateTurn(original.value, prepared);
+    if (violations.length === 0) {
+      metrics.record('valid');
+      return original.value;
+    }
 
-      const data = await response.json();
+    console.warn(`⚠️ Story turn failed validation (${violations.length} issues):`, violations.slice(0, 10));
 
-      if (!(data as any).candidates || !(data as any).candidates[0] || !(data as any).candidates[0].content) {
-        throw new Error('No response content received from Gemini');
+    let repaired: { value?: any; violations?: SchemaViolation[] } = {};
+    try {
+      const repairRoute = this.route('repair');
+      const completion = await repairRoute.provider.generate({
+        ...request,
+        messages: [
+          ...request.messages,
+          { role: 'model', text: generatedText.slice(0, MAX_REPAIR_ECHO_CHARS) },
+          { role: 'user', text: this.buildRepairPrompt(violations, choiceRange) }
+        ],
+        model: repairRoute.model,
+        responseSchema: repairRoute.responseSchema,
+        generationConfig: repairRoute.generationConfig
+      });
+      this.trackUsage(prepared, 'repair', completion.provider, completion.model, completion.usage);
+      repaired = this.parseTurnJson(completion.text);
+      const repairViolations = repaired.violations || await this.validateTurn(repaired.value, prepared);
+      if (repairViolations.length === 0) {
+        console.log('✅ Story turn repaired by the model');
+        metrics.record('repaired', violations);
+        return repaired.value;
       }
+      console.warn('⚠️ Repaired story turn still invalid:', repairViolations.slice(0, 10));
+    } catch (error) {
+      console.error('❌ Story turn repair request failed:', error);
+    }
 
-      const generatedText = (data as any).candidates[0].content.parts[0]?.text || '';
-      
-      // Log the raw response for debugging
-      console.log('🤖 Raw Gemini response:', generatedText);
-      
-      // Parse the JSON response
-      let storyResponse;
-      try {
-        storyResponse = JSON.parse(generatedText);
-      } catch (error) {
-        console.error('❌ Failed to parse JSON response. Raw text:', generatedText);
-        console.error('❌ JSON parse error:', error);
-        
-        // Try to clean up common JSON issues
-        let cleanedText = generatedText;
-        
-        // Remove any text before the first {
-        const firstBrace = cleanedText.indexOf('{');
-        if (firstBrace > 0) {
-          cleanedText = cleanedText.substring(firstBrace);
-        }
-        
-        // Remove any text after the last }
-        const lastBrace = cleanedText.lastIndexOf('}');
-        if (lastBrace > 0 && lastBrace < cleanedText.length - 1) {
-          cleanedText = cleanedText.substring(0, lastBrace + 1);
-        }
-        
-        // Try parsing the cleaned text
+    // Prefer the repaired candidate if it parsed, else the original
+    for (const candidate of [repaired.value, original.value]) {
+      if (candidate === undefined) continue;
+      const normalized = normalizeStoryTurn(candidate, choiceRange);
+      if (normalized && validateStoryTurn(normalized.turn, choiceRange).length === 0) {
+        console.log('🩹 Story turn normalized:', normalized.fixes);
+        metrics.record('normalized', violations);
+        return normalized.turn;
+      }
+    }
+
+    metrics.record('failed', violations);
+    throw new Error(
+      `Invalid story turn: ${violations.slice(0, 5).map(violation => `${violation.path} ${violation.message}`).join('; ')}`
+    );
+  }
+
+  /**
+   * Schema and choice-count problems of a turn, plus a move to a location
+   * the location graph does not allow from the session's location
+   */
+  private async validateTurn(turn: any, prepared: PreparedTurn): Promise<SchemaViolation[]> {
+    const violations = validateStoryTurn(turn, prepared.dmProfile.choices);
+    if (!prepared.exits || violations.some(violation => violation.path === '$')) {
+      return violations;
+    }
+
+    const update = await this.sessionStateService.resolveLocationUpdate(
+      prepared.storyId,
+      prepared.location,
+      turn.context?.location,
+      prepared.exits
+    );
+    if (update.rejectedReason) {
+      violations.push({
+        path: '$.context.location',
+        message: `illegal move: ${update.rejectedReason}. Rewrite the narrative so the player stays in ${prepared.location.locationId} or leaves through a passable exit`
+      });
+    }
+    return violations;
+  }
+
+  /**
+   * Model, generation config and schema for a task from the routing table
+   */
+  private route(task: LLMTask): ResolvedRoute {
+    const route = this.modelRouter.resolve(task);
+    return this.llmProvider ? { ...route, provider: this.llmProvider } : route;
+  }
+
+  /**
+   * Persist a call's token usage in the background; accounting must not
+   * delay or fail the turn
+   */
+  private trackUsage(prepared: PreparedTurn, task: string, provider: string, model: string, usage?: LLMUsage): void {
+    if (!usage) {
+      return;
+    }
+    void this.usageService.recordUsage({
+      userId: prepared.userId,
+      sessionId: prepared.sessionId,
+      storyId: prepared.storyId,
+      provider,
+      model,
+      task,
+      promptTokens: usage.promptTokens,
+      candidateTokens: usage.candidateTokens,
+      totalTokens: usage.totalTokens
+    });
+  }
+
+  private buildRepairPrompt(violations: SchemaViolation[], choiceRange: { min: number; max: number }): string {
+    const issues = violations
+      .slice(0, 20)
+      .map(violation => `- ${violation.path}: ${violation.message}`)
+      .join('\n');
+    return `Your previous response is not a valid story turn. Problems found:
+${issues}
+
+Return the corrected JSON object only. Keep the same narrative and events; change only what is needed to fix these problems. "choices" must contain ${choiceRange.min}-${choiceRange.max} entries with unique ids.`;
+  }
+
+  /**
+   * Parse the model's JSON, trimming any text around the outermost braces
+   */
+  private parseTurnJson(generatedText: string): { value?: any; violations?: SchemaViolation[] } {
+    try {
+      return { value: JSON.parse(generatedText) };
+    } catch (error) {
+      const firstBrace = generatedText.indexOf('{');
+      const lastBrace = generatedText.lastIndexOf('}');
+      if (firstBrace !== -1 && lastBrace > firstBrace) {
         try {
-          storyResponse = JSON.parse(cleanedText);
+          const value = JSON.parse(generatedText.substring(firstBrace, lastBrace + 1));
           console.log('✅ Successfully parsed cleaned JSON');
-        } catch (secondError) {
-          throw new Error(`Failed to parse JSON response even after cleanup. Original error: ${error}. Cleanup error: ${secondError}. Raw text: ${generatedText.substring(0, 500)}...`);
+          return { value };
+        } catch {
+          // fall through to report the original parse error
         }
       }
+      console.error('❌ Failed to parse JSON response. Raw text:', generatedText.substring(0, 500));
+      return { violations: [{ path: '$', message: `invalid JSON: ${(error as Error).message}` }] };
+    }
+  }
 
-      // Validate required fields
-      if (!storyResponse.narrative || !storyResponse.choices || !Array.isArray(storyResponse.choices)) {
-        throw new Error('Invalid response format: missing narrative or choices');
-      }
+  /**
+   * Moderate the validated turn, drop item grants the story state does not
+   * justify, and package it with its context and budget
+   */
+  private async buildResult(validatedTurn: any, prepared: PreparedTurn): Promise<StoryTurnResult> {
+    const { storyId, sessionId, userId, contextUsed, promptBudget, inputModeration, injection } = prepared;
+    const moderated = await this.moderationService.moderateTurn(validatedTurn, { storyId, sessionId, userId });
+    const outputModeration = moderated.decision;
+    let storyResponse = moderated.turn;
 
-      if (storyResponse.choices.length < 2 || storyResponse.choices.length > 5) {
-        throw new Error(`Expected 2-5 choices, got ${storyResponse.choices.length}`);
+    const itemsGained = storyResponse.inventory_changes?.items_gained;
+    let rejectedItems: RejectedItemGrant[] = [];
+    if (Array.isArray(itemsGained) && itemsGained.length > 0) {
+      const grants = this.itemGrantValidator.validate(itemsGained, {
+        storyId,
+        narrative: storyResponse.narrative,
+        playerMessage: prepared.playerMessage,
+        injection
+      });
+      rejectedItems = grants.rejected;
+      if (rejectedItems.length > 0) {
+        console.warn('🚫 Rejected unjustified item grants:', rejectedItems);
+        storyResponse = {
+          ...storyResponse,
+          inventory_changes: { ...storyResponse.inventory_changes, items_gained: grants.accepted }
+        };
       }
+    }
 
-      const sources = contextUsed.map(ctx => 
-        `${ctx.metadata.category}: ${ctx.metadata.name || ctx.metadata.title || ctx.metadata.id}`
-      );
-
-      console.log('✅ RAG-enhanced story generation completed successfully');
+    void this.experimentService.recordTurn({ userId, sessionId, storyId, assignment: prepared.prompt });
 
-      // Removed story state tracking for sandbox approach
+    const location = await this.sessionStateService.resolveLocationUpdate(
+      storyId,
+      prepared.location,
+      storyResponse.context?.location,
+      prepared.exits
+    );
+    if (location.rejectedReason && storyResponse.context) {
+      // Report where the player actually is, not the move that was refused
+      storyResponse = { ...storyResponse, context: { ...storyResponse.context, location: location.locationId } };
+    }
 
-      return {
-        response: storyResponse,
-        contextUsed,
-        sources,
-        inventoryChanges: storyResponse.inventory_changes
-      };
+    // The DM can only set flags of objectives the player is working on
+    const settableFlags = this.questService.settableFlags(prepared.quests);
+    const reportedFlags: string[] = Array.isArray(storyResponse.flags_set) ? storyResponse.flags_set : [];
+    const flagsSet = Array.from(new Set(reportedFlags.filter(flag => settableFlags.includes(flag))));
+    const ignoredFlags = reportedFlags.filter(flag => !settableFlags.includes(flag));
+    if (ignoredFlags.length > 0) {
+      console.warn('🚫 Ignored flags outside the current objectives:', ignoredFlags);
+      storyResponse = { ...storyResponse, flags_set: flagsSet };
+    }
 
-    } catch (error) {
-      console.error('❌ Error in Gemini RAG story generation:', error);
-      throw error;
+    // Death only counts in stories whose DM profile allows it
+    const playerDied = storyResponse.player_died === true && prepared.dmProfile.death.enabled;
+    if (storyResponse.player_died === true && !playerDied) {
+      console.warn(`🚫 Ignored player_died in ${storyId}, which does not allow death`);
     }
+
+    const sources = contextUsed.map(ctx => 
+      `${ctx.metadata.category}: ${ctx.metadata.name || ctx.metadata.title || ctx.metadata.id}`
+    );
+
+    console.log('✅ RAG-enhanced story generation completed successfully');
+
+    return {
+      response: storyResponse,
+      contextUsed,
+      sources,
+      inventoryChanges: storyResponse.inventory_changes,
+      promptBudget,
+      moderation: { input: inputModeration, output: outputModeration },
+      injectionSignals: injection.signals,
+      rejectedItems,
+      prompt: prepared.prompt,
+      location,
+      flagsSet,
+      playerDied
+    };
   }
 
   /**
    * Search story context (for debugging/testing)
    */
-  async searchContext(storyId: string, query: string, maxResults: number = 5) {
-    return await this.ragService.searchStoryContext(storyId, query, maxResults);
+  async searchContext(storyId: string, query: string, maxResults: number = 5, scene?: SceneFilter) {
+    return await this.ragService.searchStoryContext(storyId, query, maxResults, scene);
+  }
+
+  /**
+   * Explain story context ranking for a query (for content authors)
+   */
+  async explainContext(
+    storyId: string,
+    query: string,
+    maxResults: number = 5,
+    scene?: SceneFilter,
+    actionType?: string
+  ) {
+    return await this.ragService.explainStoryContext(storyId, query, maxResults, scene, actionType);
   }
 }
\ No newline at end of file
@@ -8,83 +8,29 @@ import {
   InventoryValidation,
   DynamicItemSpec
 } from '../types/inventory';
-import fs from 'fs/promises';
-import path from 'path';
+import { StoryContentRegistry } from './storyContentRegistry';
+
+// Inventory item ids are "<template id>_<timestamp>_<random>"
+const ITEM_INSTANCE_SUFFIX = /_\d+_[a-z0-9]+$/;
 
 export class InventoryService {
   private static instance: InventoryService;
   private firestore: admin.firestore.Firestore;
-  private storyItemTemplates: Map<string, StoryItemTemplate[]> = new Map();
-  private templatesLoaded = false;
+  // Item templates come from the story content registry so they hot-reload with the rest of the story
+  private contentRegistry: StoryContentRegistry;
 
   private constructor() {
     this.firestore = admin.firestore();
+    this.contentRegistry = StoryContentRegistry.getInstance();
   }
 
   public static getInstance(): InventoryService {
     if (!InventoryService.instance) {
       InventoryService.instance = new InventoryService();
-      InventoryService.instance.loadStoryItemTemplates();
     }
     return InventoryService.instance;
   }
 
-  /**
-   * Load item templates from story data files
-   */
-  private async loadStoryItemTemplates(): Promise<void> {
-    if (this.templatesLoaded) {
-      return;
-    }
-    
-    try {
-      const storiesDir = path.join(__dirname, '../../data/stories');
-      const storyFolders = await fs.readdir(storiesDir);
-
-      for (const storyFolder of storyFolders) {
-        const itemsPath = path.join(storiesDir, storyFolder, 'items.json');
-        
-        try {
-          const itemsData = JSON.parse(await fs.readFile(itemsPath, 'utf-8'));
-          const templates: StoryItemTemplate[] = itemsData.items.map((item: any) => ({
-            id: item.id,
-            name: item.name,
-            description: item.description,
-            type: item.type,
-            category: item.category,
-            rarity: item.rarity,
-            baseValue: item.base_value || 0,
-            baseWeight: item.base_weight || 1,
-            maxStack: item.max_stack || 1,
-            baseDamage: item.base_damage || 0,
-            baseDefense: item.base_defense || 0,
-            baseHealing: item.base_healing || 0,
-            baseDurability: item.base_durability || 100,
-            magical: item.magical || false,
-            cursed: item.cursed || false,
-            properties: item.properties || [],
-            usableInCombat: item.usable_in_combat || false,
-            consumable: item.consumable || false,
-            equipable: item.equipable || false,
-            storyId: storyFolder,
-            availableInStory: true,
-            iconUrl: item.icon_url || '',
-            loreText: item.lore_text || ''
-          }));
-
-          this.storyItemTemplates.set(storyFolder, templates);
-          console.log(`✅ Loaded ${templates.length} item templates for story: ${storyFolder}`);
-        } catch (error) {
-          console.log(`ℹ️ No items.json found for story: ${storyFolder} (optional)`);
-        }
-      }
-      
-      this.templatesLoaded = true;
-    } catch (error) {
-      console.error('❌ Error loading story item templates:', error);
-    }
-  }
-
   /**
    * Get player inventory from Firebase
    */
@@ -157,7 +103,8 @@ export class InventoryService {
    * Get starting items for a story
    */
   private async getStartingItems(storyId: string): Promise<StoryItemTemplate[]> {
-    const templates = this.storyItemTemplates.get(storyId) || [];
+    await this.contentRegistry.ready();
+    const templates = this.contentRegistry.getItemTemplates(storyId);
     return templates.filter(template => template.properties.includes('starting_item'));
   }
 
@@ -539,7 +486,7 @@ export class InventoryService {
    * Find item template by ID
    */
   private findItemTemplate(storyId: string, itemId: string): StoryItemTemplate | undefined {
-    const templates = this.storyItemTemplates.get(storyId) || [];
+    const templates = this.contentRegistry.getItemTemplates(storyId);
     return templates.find(template => template.id === itemId);
   }
 
@@ -547,7 +494,7 @@ export class InventoryService {
    * Get available items for a story
    */
   getStoryItems(storyId: string): StoryItemTemplate[] {
-    return this.storyItemTemplates.get(storyId) || [];
+    return this.contentRegistry.getItemTemplates(storyId);
   }
 
   /**
@@ -579,6 +526,25 @@ export class InventoryService {
     );
   }
 
+  /**
+   * Whether any of the items is a given story item (by template id) or has a
+   * given property. Properties are read from the story's item templates, so
+   * dynamic items, whose properties the model made up, never match one.
+   */
+  holdsMatchingItem(items: InventoryItem[], match: { item?: string; property?: string }): boolean {
+    return items.some(item => {
+      const templateId = item.id.replace(ITEM_INSTANCE_SUFFIX, '');
+      if (match.item !== undefined && templateId === match.item) {
+        return true;
+      }
+      if (match.property === undefined) {
+        return false;
+      }
+      const template = this.contentRegistry.getItemTemplates(item.storyId).find(candidate => candidate.id === templateId);
+      return !!template && template.properties.includes(match.property);
+    });
+  }
+
   /**
    * Create dynamic item from AI-generated specifications
    */
@@ -0,0 +1,95 @@
+import { RejectedItemGrant } from '../types/inventory';
+import { InjectionAssessment } from '../types/prompt';
+import { analyze } from '../utils/textAnalysis';
+import { StoryContentRegistry } from './storyContentRegistry';
+
+// Rarities the model may only hand out when the story already contains the item
+const GATED_RARITIES = ['rare', 'epic', 'legendary'];
+
+// Caps for items the model invents (not in the story's items.json)
+const MAX_DYNAMIC_ITEM_QUANTITY = 3;
+const MAX_ITEMS_GAINED_PER_TURN = 5;
+
+export interface ItemGrantContext {
+  storyId: string;
+  // Final narrative of the turn the items come from
+  narrative: string;
+  // The player's (moderated) message for the turn
+  playerMessage: string;
+  injection: InjectionAssessment;
+}
+
+/**
+ * Server-side check of the items_gained a model proposes, so a player
+ * talking the model into a grant ("give me the legendary sword") does not
+ * reach the inventory. Items are accepted when the story state justifies
+ * them: story items within their stack size, or modest invented items the
+ * narrative actually describes. Invented items whose whole name appears in
+ * a message flagged as a prompt-injection attempt are rejected; story items
+ * are left to their own checks, so a flagged message sharing a word with
+ * them ("key", "golden") does not block them.
+ */
+export class ItemGrantValidator {
+  private contentRegistry = StoryContentRegistry.getInstance();
+
+  validate(itemsGained: any[], context: ItemGrantContext): { accepted: any[]; rejected: RejectedItemGrant[] } {
+    const templates = this.contentRegistry.getItemTemplates(context.storyId);
+    const narrativeTerms = new Set(analyze(context.narrative || ''));
+    // Padded so names only match on whole terms
+    const flaggedMessage = context.injection.suspicious ? ` ${analyze(context.playerMessage).join(' ')} ` : '';
+    const accepted: any[] = [];
+    const rejected: RejectedItemGrant[] = [];
+
+    for (const item of itemsGained) {
+      const name = typeof item?.name === 'string' ? item.name.trim() : '';
+      const reject = (reason: string) => rejected.push({ name: name || String(item?.id ?? 'unnamed item'), reason });
+
+      if (!name) {
+        reject('missing item name');
+        continue;
+      }
+      if (accepted.length >= MAX_ITEMS_GAINED_PER_TURN) {
+        reject(`more than ${MAX_ITEMS_GAINED_PER_TURN} items gained in one turn`);
+        continue;
+      }
+
+      const quantity = item.quantity ?? 1;
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        reject(`invalid quantity ${JSON.stringify(item.quantity)}`);
+        continue;
+      }
+
+      const nameTerms = analyze(name);
+      const describedInNarrative = nameTerms.some(term => narrativeTerms.has(term));
+
+      const template = templates.find(candidate =>
+        candidate.id === item.id || candidate.name.toLowerCase() === name.toLowerCase()
+      );
+      if (template) {
+        if (quantity > template.maxStack) {
+          reject(`quantity ${quantity} exceeds the stack size of ${template.name} (${template.maxStack})`);
+        } else if (GATED_RARITIES.includes(template.rarity) && !describedInNarrative) {
+          reject(`${template.rarity} story item not described in the narrative`);
+        } else {
+          accepted.push(item);
+        }
+        continue;
+      }
+
+      const rarity = typeof item.rarity === 'string' ? item.rarity.toLowerCase() : 'common';
+      if (flaggedMessage && nameTerms.length > 0 && flaggedMessage.includes(` ${nameTerms.join(' ')} `)) {
+        reject('requested by a player message flagged as a prompt-injection attempt');
+      } else if (GATED_RARITIES.includes(rarity)) {
+        reject(`unknown ${rarity} item is not part of this story`);
+      } else if (quantity > MAX_DYNAMIC_ITEM_QUANTITY) {
+        reject(`quantity ${quantity} exceeds ${MAX_DYNAMIC_ITEM_QUANTITY} for an item not in this story`);
+      } else if (!describedInNarrative) {
+        reject('item not described in the narrative');
+      } else {
+        accepted.push(item);
+      }
+    }
+
+    return { accepted, rejected };
+  }
+}
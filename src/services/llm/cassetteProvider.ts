@@ -0,0 +1,189 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LLMProvider, LLMRequest, LLMResponse, LLMStreamChunk } from '../../types/llm';
+import { PLAYER_INPUT_TAG } from '../../utils/promptSafety';
+
+export type CassetteMode = 'record' | 'replay';
+
+// Player text as delimited in prompts (see delimitPlayerText)
+const PLAYER_INPUT_BLOCK = new RegExp(`<${PLAYER_INPUT_TAG}>\\n([\\s\\S]*?)\\n</${PLAYER_INPUT_TAG}>`, 'g');
+
+interface CassetteInteraction {
+  fingerprint: string;
+  // Human-readable hint for reviewing cassette diffs; not used for matching
+  preview: string;
+  response?: LLMResponse;
+  chunks?: LLMStreamChunk[];
+}
+
+interface CassetteFile {
+  version: 1;
+  // Name of the provider the interactions were recorded from
+  provider?: string;
+  interactions: CassetteInteraction[];
+}
+
+// Identifies a request in a cassette; interactions with equal fingerprints match
+export type CassetteMatcher = (request: LLMRequest) => string;
+
+/**
+ * Thrown in replay mode when no recorded interaction matches a request
+ */
+export class CassetteMissError extends Error {
+  constructor(fingerprint: string, cassettePath: string) {
+    super(`No recorded LLM interaction for request ${fingerprint} in cassette ${cassettePath}`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+/**
+ * Hash of what identifies a request across runs: its route (response schema
+ * and generation config), model, position in the conversation and the
+ * player's input, or the whole last message for requests without one
+ * (summaries, classification, epilogues). Prompt state that drifts between
+ * runs (system instruction, retrieved context, inventory, quests) is left
+ * out, so changes to retrieval or fixtures do not invalidate cassettes.
+ */
+export function fingerprintRequest(request: LLMRequest): string {
+  const material = {
+    schema: request.responseSchema,
+    generationConfig: request.generationConfig,
+    model: request.model,
+    position: request.messages.length,
+    input: playerInputOf(request) ?? request.messages[request.messages.length - 1]?.text ?? ''
+  };
+  return crypto.createHash('sha256').update(canonicalJson(material)).digest('hex').slice(0, 32);
+}
+
+/**
+ * The player's input the request answers: the last player_input block of the
+ * last message that has one
+ */
+function playerInputOf(request: LLMRequest): string | undefined {
+  for (let index = request.messages.length - 1; index >= 0; index--) {
+    const blocks = Array.from(request.messages[index].text.matchAll(PLAYER_INPUT_BLOCK));
+    if (blocks.length > 0) {
+      return blocks[blocks.length - 1][1];
+    }
+  }
+  return undefined;
+}
+
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Records provider calls to a cassette file, or serves them back from it.
+ * Requests are matched by fingerprintRequest unless another matcher is given.
+ * Matching requests are served in recording order; once a fingerprint's
+ * recordings are used up its last one is repeated.
+ */
+export class CassetteLLMProvider implements LLMProvider {
+  readonly name: string;
+  private cassettePath: string;
+  private cassette: CassetteFile;
+  private replayCursor = new Map<string, number>();
+
+  constructor(
+    private readonly inner: LLMProvider,
+    private readonly mode: CassetteMode,
+    cassettePath: string,
+    private readonly matcher: CassetteMatcher = fingerprintRequest
+  ) {
+    this.name = inner.name;
+    this.cassettePath = path.resolve(process.cwd(), cassettePath);
+    this.cassette = this.load();
+    console.log(`📼 LLM cassette ${mode}: ${this.cassettePath} (${this.cassette.interactions.length} interactions)`);
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const fingerprint = this.matcher(request);
+
+    if (this.mode === 'replay') {
+      const interaction = this.find(fingerprint);
+      return interaction.response || {
+        text: interaction.chunks!.map(chunk => chunk.text).join(''),
+        provider: this.name,
+        model: 'cassette',
+        usage: interaction.chunks!.find(chunk => chunk.usage)?.usage
+      };
+    }
+
+    const response = await this.inner.generate(request);
+    this.append({ fingerprint, preview: this.preview(request), response });
+    return response;
+  }
+
+  async *generateStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const fingerprint = this.matcher(request);
+
+    if (this.mode === 'replay') {
+      const interaction = this.find(fingerprint);
+      if (interaction.chunks) {
+        yield* interaction.chunks;
+      } else {
+        const response = interaction.response!;
+        yield { text: response.text, finishReason: response.finishReason, usage: response.usage };
+      }
+      return;
+    }
+
+    const chunks: LLMStreamChunk[] = [];
+    for await (const chunk of this.inner.generateStream(request)) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+    this.append({ fingerprint, preview: this.preview(request), chunks });
+  }
+
+  private find(fingerprint: string): CassetteInteraction {
+    const matches = this.cassette.interactions.filter(interaction => interaction.fingerprint === fingerprint);
+    if (matches.length === 0) {
+      throw new CassetteMissError(fingerprint, this.cassettePath);
+    }
+    const cursor = this.replayCursor.get(fingerprint) || 0;
+    this.replayCursor.set(fingerprint, cursor + 1);
+    return matches[Math.min(cursor, matches.length - 1)];
+  }
+
+  private append(interaction: CassetteInteraction): void {
+    this.cassette.provider = this.inner.name;
+    this.cassette.interactions.push(interaction);
+    fs.mkdirSync(path.dirname(this.cassettePath), { recursive: true });
+    fs.writeFileSync(this.cassettePath, JSON.stringify(this.cassette, null, 2) + '\n');
+  }
+
+  private load(): CassetteFile {
+    if (!fs.existsSync(this.cassettePath)) {
+      if (this.mode === 'replay') {
+        throw new Error(`LLM cassette not found: ${this.cassettePath}`);
+      }
+      return { version: 1, interactions: [] };
+    }
+    const parsed = JSON.parse(fs.readFileSync(this.cassettePath, 'utf-8'));
+    if (!Array.isArray(parsed.interactions)) {
+      throw new Error(`Invalid LLM cassette ${this.cassettePath}: missing interactions array`);
+    }
+    return parsed;
+  }
+
+  /**
+   * The player's input, or else the last user message as a whole
+   */
+  private preview(request: LLMRequest): string {
+    const lastUserMessage = [...request.messages].reverse().find(message => message.role === 'user');
+    return (playerInputOf(request) ?? lastUserMessage?.text ?? '').slice(0, 120);
+  }
+}
@@ -0,0 +1,78 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Consecutive-failure circuit breaker. After `failureThreshold` failures the
+ * circuit opens and calls fail fast for `cooldownMs`; then a single trial call
+ * is let through (half open) and its outcome closes or re-opens the circuit.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly cooldownMs: number
+  ) {}
+
+  /**
+   * Whether a call may proceed now (claims the trial slot when half open)
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.cooldownMs) {
+      this.state = 'half_open';
+      this.trialInFlight = false;
+    }
+    if (this.state === 'closed') {
+      return true;
+    }
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log('✅ LLM circuit closed');
+    }
+    this.state = 'closed';
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Give back the trial slot of a call that ended without saying anything
+   * about the upstream (e.g. the caller aborted), so the next call can try
+   */
+  releaseTrial(): void {
+    if (this.state === 'half_open') {
+      this.trialInFlight = false;
+    }
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.state === 'half_open' || this.failures >= this.failureThreshold) {
+      if (this.state !== 'open') {
+        console.warn(`⚠️ LLM circuit opened after ${this.failures} consecutive failures`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Milliseconds until the circuit will allow a trial call
+   */
+  retryAfterMs(): number {
+    return this.state === 'open' ? Math.max(0, this.cooldownMs - (Date.now() - this.openedAt)) : 0;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Typed failures from the LLM layer, so routes can tell an overloaded or hung
+ * upstream (503/504, retry later) apart from a bug (500)
+ */
+export class LLMProviderError extends Error {
+  readonly provider: string;
+  readonly status?: number;
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    options: { provider: string; status?: number; retryable?: boolean; retryAfterMs?: number }
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.provider = options.provider;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * A single attempt exceeded its time budget
+ */
+export class LLMTimeoutError extends LLMProviderError {
+  constructor(provider: string, timeoutMs: number) {
+    super(`${provider} request timed out after ${timeoutMs}ms`, { provider, retryable: true });
+    this.name = 'LLMTimeoutError';
+  }
+}
+
+/**
+ * The circuit breaker is open: the upstream recently failed repeatedly and is
+ * not being called until the cooldown expires
+ */
+export class LLMCircuitOpenError extends LLMProviderError {
+  constructor(provider: string, retryAfterMs: number) {
+    super(`${provider} is temporarily unavailable (circuit open)`, { provider, retryable: true, retryAfterMs });
+    this.name = 'LLMCircuitOpenError';
+  }
+}
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Build the error for a non-OK provider HTTP response
+ */
+export async function providerErrorFromResponse(provider: string, label: string, response: Response): Promise<LLMProviderError> {
+  const errorData = await response.json().catch(() => ({}));
+  return new LLMProviderError(
+    `${label} error: ${response.status} - ${(errorData as any)?.error?.message || 'Unknown error'}`,
+    {
+      provider,
+      status: response.status,
+      retryable: RETRYABLE_STATUSES.has(response.status),
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after'))
+    }
+  );
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Map an LLM failure to the HTTP status and retry hint a route should return,
+ * or null when the error is not an upstream availability problem
+ */
+export function describeLLMFailure(error: unknown): { status: number; error: string; retryAfterSeconds: number } | null {
+  if (error instanceof LLMTimeoutError) {
+    return { status: 504, error: 'Story generation timed out', retryAfterSeconds: 5 };
+  }
+  if (error instanceof LLMProviderError && error.retryable) {
+    return {
+      status: 503,
+      error: 'Story generation is temporarily unavailable',
+      retryAfterSeconds: Math.max(1, Math.ceil((error.retryAfterMs ?? 5000) / 1000))
+    };
+  }
+  return null;
+}
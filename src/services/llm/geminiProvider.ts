@@ -0,0 +1,135 @@
+import { LLMProvider, LLMRequest, LLMResponse, LLMStreamChunk, LLMUsage } from '../../types/llm';
+import { ContentRating } from '../../types/moderation';
+import { readServerSentEvents } from './sse';
+import { providerErrorFromResponse } from './errors';
+
+const SAFETY_CATEGORIES = [
+  'HARM_CATEGORY_HARASSMENT',
+  'HARM_CATEGORY_HATE_SPEECH',
+  'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+  'HARM_CATEGORY_DANGEROUS_CONTENT'
+];
+
+// Safety filter threshold per story content rating; requests without a
+// rating use the teen threshold
+const SAFETY_THRESHOLDS: Record<ContentRating, string> = {
+  everyone: 'BLOCK_LOW_AND_ABOVE',
+  teen: 'BLOCK_MEDIUM_AND_ABOVE',
+  mature: 'BLOCK_ONLY_HIGH'
+};
+
+/**
+ * Google Gemini via the generateContent REST API (same pattern as the iOS app)
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  private apiKey: string;
+  private model: string;
+  private baseURL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+  constructor(
+    apiKey: string = process.env.GOOGLE_GENAI_API_KEY || '',
+    model: string = process.env.GEMINI_MODEL || 'gemini-2.5-flash'
+  ) {
+    this.apiKey = apiKey;
+    this.model = model;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const model = request.model || this.model;
+    const response = await fetch(`${this.baseURL}/${model}:generateContent?key=${this.apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(this.buildRequestBody(request)),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      throw await providerErrorFromResponse(this.name, 'Gemini API', response);
+    }
+
+    const data = await response.json() as any;
+
+    if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
+      throw new Error('No response content received from Gemini');
+    }
+
+    return {
+      text: data.candidates[0].content.parts[0]?.text || '',
+      provider: this.name,
+      model,
+      finishReason: data.candidates[0].finishReason,
+      usage: this.parseUsage(data.usageMetadata)
+    };
+  }
+
+  async *generateStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const model = request.model || this.model;
+    const response = await fetch(`${this.baseURL}/${model}:streamGenerateContent?alt=sse&key=${this.apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(this.buildRequestBody(request)),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      throw await providerErrorFromResponse(this.name, 'Gemini API', response);
+    }
+
+    for await (const payload of readServerSentEvents(response)) {
+      const data = JSON.parse(payload);
+      const candidate = data.candidates?.[0];
+      yield {
+        text: (candidate?.content?.parts || []).map((part: any) => part.text || '').join(''),
+        model: data.modelVersion || model,
+        finishReason: candidate?.finishReason,
+        usage: this.parseUsage(data.usageMetadata)
+      };
+    }
+  }
+
+  private parseUsage(usageMetadata: any): LLMUsage | undefined {
+    if (!usageMetadata) {
+      return undefined;
+    }
+    return {
+      promptTokens: usageMetadata.promptTokenCount || 0,
+      candidateTokens: usageMetadata.candidatesTokenCount || 0,
+      totalTokens: usageMetadata.totalTokenCount || 0
+    };
+  }
+
+  private buildRequestBody(request: LLMRequest): any {
+    const config = request.generationConfig || {};
+    const body: any = {
+      contents: request.messages.map(message => ({
+        role: message.role,
+        parts: [{ text: message.text }]
+      })),
+      generationConfig: {
+        temperature: config.temperature,
+        topK: config.topK,
+        topP: config.topP,
+        maxOutputTokens: config.maxOutputTokens,
+        candidateCount: 1,
+        ...(request.responseSchema
+          ? { responseMimeType: 'application/json', responseSchema: request.responseSchema }
+          : {})
+      },
+      safetySettings: SAFETY_CATEGORIES.map(category => ({
+        category,
+        threshold: SAFETY_THRESHOLDS[request.contentRating || 'teen']
+      }))
+    };
+
+    if (request.systemInstruction) {
+      body.systemInstruction = { parts: [{ text: request.systemInstruction }] };
+    }
+
+    return body;
+  }
+}
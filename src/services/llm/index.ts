@@ -0,0 +1,48 @@
+import { LLMProvider } from '../../types/llm';
+import { GeminiProvider } from './geminiProvider';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+import { MockLLMProvider } from './mockProvider';
+import { ResilientLLMProvider } from './resilientProvider';
+import { CassetteLLMProvider, CassetteMode } from './cassetteProvider';
+
+export { GeminiProvider } from './geminiProvider';
+export { OpenAICompatibleProvider } from './openAICompatibleProvider';
+export { MockLLMProvider } from './mockProvider';
+export { STORY_TURN_SCHEMA } from './storyTurnSchema';
+export { ResilientLLMProvider } from './resilientProvider';
+export { CassetteLLMProvider, CassetteMissError } from './cassetteProvider';
+export { LLMProviderError, LLMTimeoutError, LLMCircuitOpenError, describeLLMFailure } from './errors';
+
+const providers = new Map<string, LLMProvider>();
+
+/**
+ * Get the LLM provider selected by id (defaults to LLM_PROVIDER, then gemini),
+ * wrapped with timeouts, retries and a circuit breaker. With LLM_CASSETTE_MODE
+ * set to record or replay, calls are recorded to / served from LLM_CASSETTE.
+ */
+export function getLLMProvider(id: string = process.env.LLM_PROVIDER || 'gemini'): LLMProvider {
+  let provider = providers.get(id);
+  if (!provider) {
+    switch (id) {
+      case 'gemini':
+        provider = new GeminiProvider();
+        break;
+      case 'openai':
+        provider = new OpenAICompatibleProvider();
+        break;
+      case 'mock':
+        provider = new MockLLMProvider();
+        break;
+      default:
+        console.warn(`⚠️ Unknown LLM provider "${id}", using gemini`);
+        provider = new GeminiProvider();
+    }
+    const cassetteMode = process.env.LLM_CASSETTE_MODE as CassetteMode | undefined;
+    if (cassetteMode === 'record' || cassetteMode === 'replay') {
+      provider = new CassetteLLMProvider(provider, cassetteMode, process.env.LLM_CASSETTE || 'cassettes/llm.json');
+    }
+    provider = new ResilientLLMProvider(provider);
+    providers.set(id, provider);
+  }
+  return provider;
+}
@@ -0,0 +1,144 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LLMProvider, LLMRequest, LLMResponse, LLMStreamChunk } from '../../types/llm';
+import { CLASSIFICATION_SCHEMA, EPILOGUE_SCHEMA, SESSION_SUMMARY_SCHEMA } from './responseSchemas';
+import { PLAYER_INPUT_TAG } from '../../utils/promptSafety';
+
+/**
+ * Deterministic provider for CI and local development. Serves scripted turns
+ * from a JSON file (an array of turn objects, cycled in order) or, without a
+ * script, a templated turn built from the player's action. String values may
+ * use {{playerAction}} and {{turn}} placeholders. Summary, classification and
+ * epilogue requests (by response schema) get deterministic answers derived
+ * from the input.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  private script: any[] | null;
+  private turn = 0;
+
+  constructor(scriptPath: string | undefined = process.env.LLM_MOCK_SCRIPT) {
+    this.script = scriptPath ? this.loadScript(scriptPath) : null;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const lastMessage = request.messages[request.messages.length - 1]?.text || '';
+    const text = JSON.stringify(this.respond(request, lastMessage));
+    // Same ~4 characters per token estimate as the prompt builder
+    const promptTokens = Math.ceil(request.messages.reduce((sum, message) => sum + message.text.length, 0) / 4);
+    const candidateTokens = Math.ceil(text.length / 4);
+
+    return {
+      text,
+      provider: this.name,
+      model: request.model || 'mock',
+      finishReason: 'STOP',
+      usage: { promptTokens, candidateTokens, totalTokens: promptTokens + candidateTokens }
+    };
+  }
+
+  async *generateStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const response = await this.generate(request);
+    // Fixed-size slices so consumers see partial JSON, as with a real model
+    for (let offset = 0; offset < response.text.length; offset += 24) {
+      yield { text: response.text.slice(offset, offset + 24) };
+    }
+    yield { text: '', model: response.model, finishReason: response.finishReason, usage: response.usage };
+  }
+
+  private respond(request: LLMRequest, lastMessage: string): any {
+    if (request.responseSchema === SESSION_SUMMARY_SCHEMA) {
+      return this.summarize(lastMessage);
+    }
+    if (request.responseSchema === CLASSIFICATION_SCHEMA) {
+      return { label: 'none', confidence: 1, reasons: [] };
+    }
+    if (request.responseSchema === EPILOGUE_SCHEMA) {
+      const ending = lastMessage.match(/^ENDING REACHED: (.+)$/m)?.[1] || 'the end';
+      return { epilogue: `And so your adventure comes to a close: ${ending.replace(/\.$/, '')}.` };
+    }
+
+    this.turn++;
+    const variables: Record<string, string> = {
+      playerAction: this.extractPlayerAction(lastMessage),
+      turn: String(this.turn)
+    };
+    const template = this.script
+      ? this.script[(this.turn - 1) % this.script.length]
+      : this.defaultTurn();
+    return this.render(template, variables);
+  }
+
+  /**
+   * Summary built from the "Player:" / "Narrator:" lines of the transcript
+   * (or the summaries being combined), so map-reduce output stays traceable
+   */
+  private summarize(prompt: string): any {
+    const playerLines = Array.from(prompt.matchAll(/^Player: (.+)$/gm)).map(match => match[1]);
+    const narratorLines = Array.from(prompt.matchAll(/^Narrator: (.+)$/gm)).map(match => match[1]);
+    const partialEvents = Array.from(prompt.matchAll(/"keyEvents":\s*\[([^\]]*)\]/g))
+      .flatMap(match => JSON.parse(`[${match[1]}]`) as string[]);
+
+    const keyEvents = (playerLines.length > 0 ? playerLines.map(line => `Player: ${line}`) : partialEvents).slice(0, 7);
+    return {
+      summary: playerLines.length > 0
+        ? `The player took ${playerLines.length} actions in this part of the story.`
+        : `Combined summary of ${Array.from(prompt.matchAll(/"summary":/g)).length} parts.`,
+      keyEvents,
+      characterRelationships: [],
+      lastScene: (narratorLines[narratorLines.length - 1] || keyEvents[keyEvents.length - 1] || 'Story in progress').slice(0, 200)
+    };
+  }
+
+  private loadScript(scriptPath: string): any[] {
+    const resolved = path.resolve(process.cwd(), scriptPath);
+    const parsed = JSON.parse(fs.readFileSync(resolved, 'utf-8'));
+    const turns = Array.isArray(parsed) ? parsed : parsed.turns;
+    if (!Array.isArray(turns) || turns.length === 0) {
+      throw new Error(`Mock LLM script ${resolved} must contain a non-empty array of turns`);
+    }
+    console.log(`🎭 Loaded ${turns.length} scripted mock turns from ${resolved}`);
+    return turns;
+  }
+
+  private extractPlayerAction(prompt: string): string {
+    const match = prompt.match(new RegExp(`<${PLAYER_INPUT_TAG}>\\n([\\s\\S]*?)\\n</${PLAYER_INPUT_TAG}>`));
+    return match ? match[1] : prompt.slice(0, 200);
+  }
+
+  private defaultTurn(): any {
+    return {
+      narrative: 'You decide to {{playerAction}}. The world shifts in response, and the path ahead grows clearer.',
+      choices: [
+        { id: 'look_around', text: 'Look around carefully', hint: 'Notice what changed' },
+        { id: 'press_on', text: 'Press on', hint: 'Keep the momentum' },
+        { id: 'wait', text: 'Wait and listen' }
+      ],
+      context: {
+        location: 'unknown',
+        tension: 'low',
+        momentum: 'steady'
+      },
+      inventory_changes: {
+        items_gained: [],
+        items_lost: [],
+        gold_change: 0
+      }
+    };
+  }
+
+  private render(value: any, variables: Record<string, string>): any {
+    if (typeof value === 'string') {
+      return value.replace(/\{\{(\w+)\}\}/g, (placeholder, name) => variables[name] ?? placeholder);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.render(item, variables));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.render(item, variables)])
+      );
+    }
+    return value;
+  }
+}
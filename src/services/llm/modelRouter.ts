@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LLMGenerationConfig, LLMProvider, LLMRoute, LLMTask } from '../../types/llm';
+import { getLLMProvider } from './index';
+import { RESPONSE_SCHEMAS } from './responseSchemas';
+
+const DEFAULT_ROUTES_FILE = path.join(__dirname, '../../../data/llm-routes.json');
+
+// Used when the routing table has no entry (or no schema) for a task
+const FALLBACK_SCHEMAS: Record<LLMTask, string | null> = {
+  narrate: 'story_turn',
+  repair: 'story_turn',
+  summarize: 'session_summary',
+  classify: 'classification',
+  epilogue: 'epilogue'
+};
+
+export interface ResolvedRoute {
+  task: LLMTask;
+  provider: LLMProvider;
+  model?: string;
+  generationConfig: LLMGenerationConfig;
+  responseSchema?: any;
+}
+
+/**
+ * Maps each LLM task to a provider, model, generation config and response
+ * schema, from data/llm-routes.json (or LLM_ROUTES_FILE), so cheap tasks can
+ * run on smaller models without code changes
+ */
+export class ModelRouter {
+  private static instance: ModelRouter;
+  private routes: Partial<Record<LLMTask, LLMRoute>>;
+
+  constructor(routesFile: string = process.env.LLM_ROUTES_FILE || DEFAULT_ROUTES_FILE) {
+    this.routes = this.loadRoutes(routesFile);
+  }
+
+  static getInstance(): ModelRouter {
+    if (!ModelRouter.instance) {
+      ModelRouter.instance = new ModelRouter();
+    }
+    return ModelRouter.instance;
+  }
+
+  resolve(task: LLMTask): ResolvedRoute {
+    const route = this.routes[task] || {};
+    const provider = getLLMProvider(route.provider || process.env.LLM_PROVIDER || 'gemini');
+    const schemaName = route.schema !== undefined ? route.schema : FALLBACK_SCHEMAS[task];
+
+    return {
+      task,
+      provider,
+      model: typeof route.model === 'string' ? route.model : route.model?.[provider.name],
+      generationConfig: { ...route.generationConfig },
+      responseSchema: schemaName ? RESPONSE_SCHEMAS[schemaName] : undefined
+    };
+  }
+
+  private loadRoutes(routesFile: string): Partial<Record<LLMTask, LLMRoute>> {
+    const resolved = path.resolve(process.cwd(), routesFile);
+    if (!fs.existsSync(resolved)) {
+      console.warn(`⚠️ LLM routing table not found at ${resolved}, using provider defaults for every task`);
+      return {};
+    }
+
+    const routes = JSON.parse(fs.readFileSync(resolved, 'utf-8'));
+    for (const [task, route] of Object.entries(routes as Record<string, LLMRoute>)) {
+      if (!(task in FALLBACK_SCHEMAS)) {
+        throw new Error(`Unknown task "${task}" in LLM routing table ${resolved}`);
+      }
+      if (route.schema && !RESPONSE_SCHEMAS[route.schema]) {
+        throw new Error(`Unknown schema "${route.schema}" for task "${task}" in ${resolved}`);
+      }
+    }
+    console.log(`🧭 Loaded LLM routes for ${Object.keys(routes).join(', ')} from ${resolved}`);
+    return routes;
+  }
+}
@@ -0,0 +1,75 @@
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t'
+};
+
+/**
+ * Incrementally extracts the decoded "narrative" string from a JSON story
+ * turn while it is still being generated, so narration can be shown before
+ * the full response (choices, inventory changes) has arrived.
+ */
+export class NarrativeStreamParser {
+  private raw = '';
+  private position = 0;
+  private state: 'searching' | 'reading' | 'done' = 'searching';
+
+  /**
+   * Feed the next raw chunk; returns newly decoded narrative text (may be empty)
+   */
+  push(chunk: string): string {
+    this.raw += chunk;
+    if (this.state === 'searching') {
+      const match = /"narrative"\s*:\s*"/.exec(this.raw);
+      if (!match) {
+        return '';
+      }
+      this.position = match.index + match[0].length;
+      this.state = 'reading';
+    }
+    if (this.state === 'done') {
+      return '';
+    }
+
+    let delta = '';
+    while (this.position < this.raw.length) {
+      const char = this.raw[this.position];
+      if (char === '"') {
+        this.state = 'done';
+        this.position++;
+        break;
+      }
+      if (char !== '\\') {
+        delta += char;
+        this.position++;
+        continue;
+      }
+
+      // Escape sequence: wait for the rest of it to arrive
+      const next = this.raw[this.position + 1];
+      if (next === undefined) break;
+      if (next === 'u') {
+        const hex = this.raw.slice(this.position + 2, this.position + 6);
+        if (hex.length < 4) break;
+        delta += String.fromCharCode(parseInt(hex, 16));
+        this.position += 6;
+      } else {
+        delta += ESCAPES[next] ?? next;
+        this.position += 2;
+      }
+    }
+    return delta;
+  }
+
+  /**
+   * The full raw text received so far
+   */
+  get text(): string {
+    return this.raw;
+  }
+}
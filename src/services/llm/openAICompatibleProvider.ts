@@ -0,0 +1,127 @@
+import { LLMProvider, LLMRequest, LLMResponse, LLMStreamChunk, LLMUsage } from '../../types/llm';
+import { readServerSentEvents } from './sse';
+import { providerErrorFromResponse } from './errors';
+import { toJsonSchema } from './storyTurnSchema';
+
+/**
+ * Any server exposing the OpenAI chat completions API (vLLM, llama.cpp,
+ * Ollama, LM Studio, ...), for self-hosted models
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  private baseURL: string;
+  private apiKey: string;
+  private model: string;
+
+  constructor(
+    baseURL: string = process.env.OPENAI_BASE_URL || 'http://localhost:8000/v1',
+    apiKey: string = process.env.OPENAI_API_KEY || '',
+    model: string = process.env.OPENAI_MODEL || 'local-model'
+  ) {
+    this.baseURL = baseURL.replace(/\/$/, '');
+    this.apiKey = apiKey;
+    this.model = model;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const model = request.model || this.model;
+    const response = await this.post(request, model, false);
+
+    if (!response.ok) {
+      throw await providerErrorFromResponse(this.name, 'OpenAI-compatible API', response);
+    }
+
+    const data = await response.json() as any;
+    const choice = data.choices?.[0];
+    if (!choice?.message) {
+      throw new Error('No response content received from OpenAI-compatible provider');
+    }
+
+    return {
+      text: choice.message.content || '',
+      provider: this.name,
+      model: data.model || model,
+      finishReason: choice.finish_reason,
+      usage: this.parseUsage(data.usage)
+    };
+  }
+
+  async *generateStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const model = request.model || this.model;
+    const response = await this.post(request, model, true);
+
+    if (!response.ok) {
+      throw await providerErrorFromResponse(this.name, 'OpenAI-compatible API', response);
+    }
+
+    for await (const payload of readServerSentEvents(response)) {
+      if (payload.trim() === '[DONE]') break;
+      const data = JSON.parse(payload);
+      const choice = data.choices?.[0];
+      yield {
+        text: choice?.delta?.content || '',
+        model: data.model || model,
+        finishReason: choice?.finish_reason || undefined,
+        usage: this.parseUsage(data.usage)
+      };
+    }
+  }
+
+  private async post(request: LLMRequest, model: string, stream: boolean): Promise<Response> {
+    const config = request.generationConfig || {};
+
+    const messages: Array<{ role: string; content: string }> = [];
+    if (request.systemInstruction) {
+      messages.push({ role: 'system', content: request.systemInstruction });
+    }
+    for (const message of request.messages) {
+      messages.push({
+        role: message.role === 'model' ? 'assistant' : 'user',
+        content: message.text
+      });
+    }
+
+    const body: any = {
+      model,
+      messages,
+      temperature: config.temperature,
+      top_p: config.topP,
+      max_tokens: config.maxOutputTokens
+    };
+
+    if (stream) {
+      body.stream = true;
+      body.stream_options = { include_usage: true };
+    }
+
+    if (request.responseSchema) {
+      body.response_format = {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema: toJsonSchema(request.responseSchema) }
+      };
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    return fetch(`${this.baseURL}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: request.signal
+    });
+  }
+
+  private parseUsage(usage: any): LLMUsage | undefined {
+    if (!usage) {
+      return undefined;
+    }
+    return {
+      promptTokens: usage.prompt_tokens || 0,
+      candidateTokens: usage.completion_tokens || 0,
+      totalTokens: usage.total_tokens || 0
+    };
+  }
+}
@@ -0,0 +1,229 @@
+import { LLMProvider, LLMRequest, LLMResponse, LLMStreamChunk } from '../../types/llm';
+import { CircuitBreaker } from './circuitBreaker';
+import { LLMCircuitOpenError, LLMProviderError, LLMTimeoutError } from './errors';
+
+export interface ResilienceOptions {
+  // Per-attempt budget; for streams, the longest allowed gap between chunks
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  // Longest backoff or Retry-After we are willing to wait inside a request
+  maxDelayMs: number;
+  circuitFailureThreshold: number;
+  circuitCooldownMs: number;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : fallback;
+}
+
+export function resilienceOptionsFromEnv(): ResilienceOptions {
+  return {
+    timeoutMs: envNumber('LLM_TIMEOUT_MS', 30000),
+    maxRetries: envNumber('LLM_MAX_RETRIES', 2),
+    baseDelayMs: envNumber('LLM_RETRY_BASE_MS', 500),
+    maxDelayMs: envNumber('LLM_RETRY_MAX_MS', 8000),
+    circuitFailureThreshold: envNumber('LLM_CIRCUIT_FAILURE_THRESHOLD', 5),
+    circuitCooldownMs: envNumber('LLM_CIRCUIT_COOLDOWN_MS', 30000)
+  };
+}
+
+/**
+ * Wraps a provider with per-attempt timeouts, jittered exponential backoff on
+ * retryable failures (honoring Retry-After) and a circuit breaker
+ */
+export class ResilientLLMProvider implements LLMProvider {
+  readonly name: string;
+  private breaker: CircuitBreaker;
+
+  constructor(
+    private readonly inner: LLMProvider,
+    private readonly options: ResilienceOptions = resilienceOptionsFromEnv()
+  ) {
+    this.name = inner.name;
+    this.breaker = new CircuitBreaker(options.circuitFailureThreshold, options.circuitCooldownMs);
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    for (let attempt = 0; ; attempt++) {
+      const trial = this.acquire();
+      const attemptSignal = this.createAttemptSignal(request.signal);
+      try {
+        const response = await this.inner.generate({ ...request, signal: attemptSignal.signal });
+        this.breaker.recordSuccess();
+        return response;
+      } catch (error) {
+        const failure = this.classify(error, attemptSignal, request.signal);
+        await this.handleFailure(failure, attempt, request.signal);
+      } finally {
+        attemptSignal.dispose();
+        // Every exit path gives the trial slot back, whatever the outcome
+        if (trial) this.breaker.releaseTrial();
+      }
+    }
+  }
+
+  async *generateStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    for (let attempt = 0; ; attempt++) {
+      const trial = this.acquire();
+      const attemptSignal = this.createAttemptSignal(request.signal);
+      let yielded = false;
+      try {
+        for await (const chunk of this.inner.generateStream({ ...request, signal: attemptSignal.signal })) {
+          attemptSignal.reset();
+          yielded = true;
+          yield chunk;
+        }
+        this.breaker.recordSuccess();
+        return;
+      } catch (error) {
+        const failure = this.classify(error, attemptSignal, request.signal);
+        // Once text has reached the caller, a retry would duplicate it
+        if (yielded) {
+          this.recordOutcome(failure, request.signal);
+          throw failure;
+        }
+        await this.handleFailure(failure, attempt, request.signal);
+      } finally {
+        attemptSignal.dispose();
+        // Also covers a consumer that stops iterating early
+        if (trial) this.breaker.releaseTrial();
+      }
+    }
+  }
+
+  /**
+   * Claim a call, or throw while the circuit is open; returns whether the
+   * call is the half-open trial
+   */
+  private acquire(): boolean {
+    if (!this.breaker.tryAcquire()) {
+      throw new LLMCircuitOpenError(this.name, this.breaker.retryAfterMs());
+    }
+    return this.breaker.getState() === 'half_open';
+  }
+
+  /**
+   * Update the breaker for a failed attempt: retryable failures count
+   * against the upstream; any other error (a 400, a safety block, a cassette
+   * miss) means it answered, so it is up. Caller aborts say nothing either way.
+   */
+  private recordOutcome(error: Error, callerSignal?: AbortSignal): void {
+    if (callerSignal?.aborted) {
+      this.breaker.releaseTrial();
+    } else if (error instanceof LLMProviderError && error.retryable) {
+      this.breaker.recordFailure();
+    } else {
+      this.breaker.recordSuccess();
+    }
+  }
+
+  /**
+   * Record the failure and wait before the next attempt, or rethrow when the
+   * error is final
+   */
+  private async handleFailure(error: Error, attempt: number, callerSignal?: AbortSignal): Promise<void> {
+    this.recordOutcome(error, callerSignal);
+    if (callerSignal?.aborted || !(error instanceof LLMProviderError) || !error.retryable) {
+      throw error;
+    }
+
+    const delayMs = error.retryAfterMs ?? this.backoffDelay(attempt);
+    if (attempt >= this.options.maxRetries || delayMs > this.options.maxDelayMs || this.breaker.getState() === 'open') {
+      throw error;
+    }
+
+    console.warn(`⚠️ ${this.name} attempt ${attempt + 1} failed (${error.message}), retrying in ${delayMs}ms`);
+    await sleep(delayMs, callerSignal);
+  }
+
+  /**
+   * Full jitter: a random delay up to base * 2^attempt, capped at maxDelayMs
+   */
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  /**
+   * Turn whatever the attempt threw into a typed error. Caller aborts pass
+   * through untouched so they are never retried.
+   */
+  private classify(error: unknown, attemptSignal: AttemptSignal, callerSignal?: AbortSignal): Error {
+    if (callerSignal?.aborted) {
+      return error as Error;
+    }
+    if (attemptSignal.timedOut) {
+      return new LLMTimeoutError(this.name, this.options.timeoutMs);
+    }
+    if (error instanceof LLMProviderError) {
+      return error;
+    }
+    // fetch rejects with a TypeError on connection failures
+    if (error instanceof TypeError) {
+      return new LLMProviderError(`${this.name} network error: ${error.message}`, { provider: this.name, retryable: true });
+    }
+    return error as Error;
+  }
+
+  private createAttemptSignal(callerSignal?: AbortSignal): AttemptSignal {
+    return new AttemptSignal(this.options.timeoutMs, callerSignal);
+  }
+}
+
+/**
+ * Abort signal for one attempt: fires on timeout or when the caller aborts
+ */
+class AttemptSignal {
+  private controller = new AbortController();
+  private timer?: NodeJS.Timeout;
+  private onCallerAbort = () => this.controller.abort();
+  timedOut = false;
+
+  constructor(private readonly timeoutMs: number, private readonly callerSignal?: AbortSignal) {
+    if (callerSignal?.aborted) {
+      this.controller.abort();
+    }
+    callerSignal?.addEventListener('abort', this.onCallerAbort);
+    this.reset();
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * Restart the timeout (used between stream chunks)
+   */
+  reset(): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timedOut = true;
+      this.controller.abort();
+    }, this.timeoutMs);
+  }
+
+  dispose(): void {
+    clearTimeout(this.timer);
+    this.callerSignal?.removeEventListener('abort', this.onCallerAbort);
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
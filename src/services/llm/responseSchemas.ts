@@ -0,0 +1,75 @@
+import { STORY_TURN_SCHEMA } from './storyTurnSchema';
+
+/**
+ * Structured session recap (see StorySessionService.generateSessionSummary)
+ */
+export const SESSION_SUMMARY_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    summary: {
+      type: 'STRING',
+      description: 'Overall narrative summary (2-3 paragraphs)'
+    },
+    keyEvents: {
+      type: 'ARRAY',
+      items: { type: 'STRING' },
+      description: 'The 5-7 most important events'
+    },
+    characterRelationships: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          character: { type: 'STRING' },
+          relationship: { type: 'STRING' }
+        },
+        required: ['character', 'relationship']
+      }
+    },
+    lastScene: {
+      type: 'STRING',
+      description: 'Where the story left off'
+    }
+  },
+  required: ['summary', 'keyEvents', 'characterRelationships', 'lastScene']
+};
+
+/**
+ * Generic label + confidence output for utility classification calls
+ */
+export const CLASSIFICATION_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    label: { type: 'STRING' },
+    confidence: { type: 'NUMBER' },
+    reasons: {
+      type: 'ARRAY',
+      items: { type: 'STRING' }
+    }
+  },
+  required: ['label', 'confidence']
+};
+
+/**
+ * Closing narration of a session that reached an ending
+ */
+export const EPILOGUE_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    epilogue: {
+      type: 'STRING',
+      description: 'The epilogue narration (1-2 paragraphs)'
+    }
+  },
+  required: ['epilogue']
+};
+
+/**
+ * Response schemas that routes in data/llm-routes.json can refer to by name
+ */
+export const RESPONSE_SCHEMAS: Record<string, any> = {
+  story_turn: STORY_TURN_SCHEMA,
+  session_summary: SESSION_SUMMARY_SCHEMA,
+  classification: CLASSIFICATION_SCHEMA,
+  epilogue: EPILOGUE_SCHEMA
+};
@@ -0,0 +1,74 @@
+export interface SchemaViolation {
+  // JSONPath-style location, e.g. $.choices[2].id
+  path: string;
+  message: string;
+}
+
+/**
+ * Validate a value against a Gemini-format response schema (type, properties,
+ * required, items, enum). Returns every violation found, not just the first.
+ */
+export function validateAgainstSchema(value: any, schema: any, path: string = '$'): SchemaViolation[] {
+  if (!schema) {
+    return [];
+  }
+
+  const violations: SchemaViolation[] = [];
+  const type = typeof schema.type === 'string' ? schema.type.toUpperCase() : undefined;
+
+  switch (type) {
+    case 'OBJECT': {
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return [{ path, message: `expected object, got ${describeType(value)}` }];
+      }
+      for (const key of schema.required || []) {
+        if (value[key] === undefined || value[key] === null) {
+          violations.push({ path: `${path}.${key}`, message: 'is required' });
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (value[key] !== undefined && value[key] !== null) {
+          violations.push(...validateAgainstSchema(value[key], propertySchema, `${path}.${key}`));
+        }
+      }
+      break;
+    }
+    case 'ARRAY': {
+      if (!Array.isArray(value)) {
+        return [{ path, message: `expected array, got ${describeType(value)}` }];
+      }
+      value.forEach((item, index) => {
+        violations.push(...validateAgainstSchema(item, schema.items, `${path}[${index}]`));
+      });
+      break;
+    }
+    case 'STRING':
+      if (typeof value !== 'string') {
+        return [{ path, message: `expected string, got ${describeType(value)}` }];
+      }
+      break;
+    case 'NUMBER':
+    case 'INTEGER':
+      if (typeof value !== 'number' || !Number.isFinite(value) || (type === 'INTEGER' && !Number.isInteger(value))) {
+        return [{ path, message: `expected ${type.toLowerCase()}, got ${describeType(value)}` }];
+      }
+      break;
+    case 'BOOLEAN':
+      if (typeof value !== 'boolean') {
+        return [{ path, message: `expected boolean, got ${describeType(value)}` }];
+      }
+      break;
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    violations.push({ path, message: `must be one of ${schema.enum.join(', ')} (got ${JSON.stringify(value)})` });
+  }
+
+  return violations;
+}
+
+function describeType(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
@@ -0,0 +1,46 @@
+/**
+ * Read `data:` payloads from a Server-Sent Events HTTP response body
+ */
+export async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const event = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+        const data = parseEventData(event);
+        if (data !== null) {
+          yield data;
+        }
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+
+    const trailing = parseEventData(buffer + decoder.decode());
+    if (trailing !== null) {
+      yield trailing;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseEventData(event: string): string | null {
+  const lines = event
+    .split(/\r?\n/)
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).replace(/^ /, ''));
+  return lines.length > 0 ? lines.join('\n') : null;
+}
@@ -0,0 +1,345 @@
+import { SchemaViolation, validateAgainstSchema } from './schemaValidator';
+
+/**
+ * Response schema for a structured story turn (Gemini schema format)
+ */
+export const STORY_TURN_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    narrative: {
+      type: 'STRING',
+      description: 'The story continuation narration'
+    },
+    choices: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          id: {
+            type: 'STRING',
+            description: 'Unique identifier for the choice'
+          },
+          text: {
+            type: 'STRING',
+            description: 'The action text for the choice'
+          },
+          hint: {
+            type: 'STRING',
+            description: 'Optional hint about consequences'
+          }
+        },
+        required: ['id', 'text']
+      }
+    },
+    context: {
+      type: 'OBJECT',
+      properties: {
+        location: { type: 'STRING' },
+        tension: { 
+          type: 'STRING',
+          enum: ['low', 'medium', 'high', 'critical']
+        },
+        momentum: {
+          type: 'STRING', 
+          enum: ['stalled', 'slow', 'steady', 'fast']
+        }
+      }
+    },
+    inventory_changes: {
+      type: 'OBJECT',
+      properties: {
+        items_gained: {
+          type: 'ARRAY',
+          items: {
+            type: 'OBJECT',
+            properties: {
+              id: { type: 'STRING' },
+              name: { type: 'STRING' },
+              description: { type: 'STRING' },
+              quantity: { type: 'NUMBER' },
+              source: { type: 'STRING' },
+              rarity: { 
+                type: 'STRING',
+                enum: ['common', 'uncommon', 'rare', 'epic', 'legendary']
+              },
+              category: { type: 'STRING' },
+              magical: { type: 'BOOLEAN' },
+              properties: { 
+                type: 'ARRAY', 
+                items: { type: 'STRING' }
+              }
+            },
+            required: ['id', 'name']
+          }
+        },
+        items_lost: {
+          type: 'ARRAY',
+          items: {
+            type: 'OBJECT',
+            properties: {
+              id: { type: 'STRING' },
+              name: { type: 'STRING' },
+              quantity: { type: 'NUMBER' },
+              reason: { type: 'STRING' }
+            },
+            required: ['id', 'name']
+          }
+        },
+        gold_change: { type: 'NUMBER' }
+      }
+    },
+    flags_set: {
+      type: 'ARRAY',
+      items: { type: 'STRING' },
+      description: 'Story flags of current objectives the player earned this turn'
+    },
+    player_died: {
+      type: 'BOOLEAN',
+      description: 'True only in the turn where the player character dies'
+    }
+  },
+  required: ['narrative', 'choices']
+};
+
+/**
+ * Convert a Gemini-format schema (uppercase types) to standard JSON Schema
+ */
+export function toJsonSchema(schema: any): any {
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+
+  const converted: any = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'type' && typeof value === 'string') {
+      converted.type = value.toLowerCase();
+    } else if (key === 'properties') {
+      converted.properties = Object.fromEntries(
+        Object.entries(value as Record<string, any>).map(([name, property]) => [name, toJsonSchema(property)])
+      );
+    } else if (key === 'items') {
+      converted.items = toJsonSchema(value);
+    } else {
+      converted[key] = value;
+    }
+  }
+  return converted;
+}
+
+export const MIN_STORY_CHOICES = 2;
+export const MAX_STORY_CHOICES = 5;
+
+// Choices per turn unless a story's DM profile narrows the range
+export const DEFAULT_CHOICE_RANGE = { min: MIN_STORY_CHOICES, max: MAX_STORY_CHOICES };
+
+const TENSION_VALUES = ['low', 'medium', 'high', 'critical'];
+const MOMENTUM_VALUES = ['stalled', 'slow', 'steady', 'fast'];
+const RARITY_VALUES = ['common', 'uncommon', 'rare', 'epic', 'legendary'];
+
+const FALLBACK_CHOICES = [
+  { id: 'look_around', text: 'Look around carefully' },
+  { id: 'continue', text: 'Continue onward' },
+  { id: 'wait', text: 'Wait and see what happens' },
+  { id: 'think', text: 'Think through your options' },
+  { id: 'retrace', text: 'Retrace your steps' }
+];
+
+/**
+ * Validate a parsed story turn: the response schema plus the rules the schema
+ * cannot express (non-empty narrative, choice count, unique choice ids)
+ */
+export function validateStoryTurn(
+  turn: any,
+  choiceRange: { min: number; max: number } = DEFAULT_CHOICE_RANGE
+): SchemaViolation[] {
+  const violations = validateAgainstSchema(turn, STORY_TURN_SCHEMA);
+  if (violations.some(violation => violation.path === '$')) {
+    return violations;
+  }
+
+  if (typeof turn.narrative === 'string' && turn.narrative.trim().length === 0) {
+    violations.push({ path: '$.narrative', message: 'must not be empty' });
+  }
+
+  if (Array.isArray(turn.choices)) {
+    if (turn.choices.length < choiceRange.min || turn.choices.length > choiceRange.max) {
+      violations.push({
+        path: '$.choices',
+        message: `must contain ${choiceRange.min}-${choiceRange.max} choices (got ${turn.choices.length})`
+      });
+    }
+    const seen = new Set<string>();
+    turn.choices.forEach((choice: any, index: number) => {
+      if (typeof choice?.id === 'string') {
+        if (seen.has(choice.id)) {
+          violations.push({ path: `$.choices[${index}].id`, message: `duplicate choice id "${choice.id}"` });
+        }
+        seen.add(choice.id);
+      }
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Best-effort repair of a story turn without another model call: coerce or
+ * drop malformed fields, truncate extra choices and pad missing ones. Returns
+ * null when the turn has no usable narrative.
+ */
+export function normalizeStoryTurn(
+  turn: any,
+  choiceRange: { min: number; max: number } = DEFAULT_CHOICE_RANGE
+): { turn: any; fixes: string[] } | null {
+  if (!turn || typeof turn !== 'object' || Array.isArray(turn)) {
+    return null;
+  }
+  const narrative = typeof turn.narrative === 'string' ? turn.narrative.trim() : '';
+  if (!narrative) {
+    return null;
+  }
+
+  const fixes: string[] = [];
+  const normalized: any = { ...turn, narrative };
+
+  let choices: any[] = Array.isArray(turn.choices) ? turn.choices : [];
+  if (!Array.isArray(turn.choices)) {
+    fixes.push('replaced missing choices');
+  }
+  const seen = new Set<string>();
+  choices = choices
+    .map((choice: any, index: number) => {
+      const text = typeof choice === 'string' ? choice : choice?.text;
+      if (typeof text !== 'string' || !text.trim()) {
+        fixes.push(`dropped choice ${index} without text`);
+        return null;
+      }
+      let id = typeof choice?.id === 'string' || typeof choice?.id === 'number' ? String(choice.id) : `choice_${index + 1}`;
+      if (seen.has(id)) {
+        id = `${id}_${index + 1}`;
+        fixes.push(`renamed duplicate choice id at ${index}`);
+      }
+      seen.add(id);
+      return {
+        id,
+        text: text.trim(),
+        ...(typeof choice?.hint === 'string' ? { hint: choice.hint } : {})
+      };
+    })
+    .filter(Boolean) as any[];
+
+  if (choices.length > choiceRange.max) {
+    fixes.push(`truncated ${choices.length} choices to ${choiceRange.max}`);
+    choices = choices.slice(0, choiceRange.max);
+  }
+  for (const fallback of FALLBACK_CHOICES) {
+    if (choices.length >= choiceRange.min) break;
+    if (!seen.has(fallback.id)) {
+      choices.push({ ...fallback });
+      fixes.push(`added fallback choice "${fallback.id}"`);
+    }
+  }
+  normalized.choices = choices;
+
+  if (turn.context !== undefined) {
+    if (!turn.context || typeof turn.context !== 'object' || Array.isArray(turn.context)) {
+      delete normalized.context;
+      fixes.push('dropped malformed context');
+    } else {
+      const context: any = { ...turn.context };
+      if (context.location !== undefined && typeof context.location !== 'string') {
+        delete context.location;
+        fixes.push('dropped non-string context.location');
+      }
+      if (context.tension !== undefined && !TENSION_VALUES.includes(context.tension)) {
+        delete context.tension;
+        fixes.push('dropped invalid context.tension');
+      }
+      if (context.momentum !== undefined && !MOMENTUM_VALUES.includes(context.momentum)) {
+        delete context.momentum;
+        fixes.push('dropped invalid context.momentum');
+      }
+      normalized.context = context;
+    }
+  }
+
+  if (turn.inventory_changes !== undefined) {
+    normalized.inventory_changes = normalizeInventoryChanges(turn.inventory_changes, fixes);
+  }
+
+  if (turn.flags_set !== undefined) {
+    if (!Array.isArray(turn.flags_set)) {
+      fixes.push('dropped malformed flags_set');
+      normalized.flags_set = [];
+    } else {
+      normalized.flags_set = turn.flags_set.filter((flag: any) => typeof flag === 'string');
+      if (normalized.flags_set.length !== turn.flags_set.length) {
+        fixes.push('dropped non-string flags_set entries');
+      }
+    }
+  }
+
+  if (turn.player_died !== undefined && typeof turn.player_died !== 'boolean') {
+    normalized.player_died = turn.player_died === 'true';
+    fixes.push('coerced player_died to a boolean');
+  }
+
+  return { turn: normalized, fixes };
+}
+
+function normalizeInventoryChanges(changes: any, fixes: string[]): any {
+  if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+    fixes.push('dropped malformed inventory_changes');
+    return { items_gained: [], items_lost: [], gold_change: 0 };
+  }
+
+  const normalizeItems = (items: any, field: string) => {
+    if (items === undefined) return undefined;
+    if (!Array.isArray(items)) {
+      fixes.push(`dropped malformed inventory_changes.${field}`);
+      return [];
+    }
+    return items
+      .filter((item: any, index: number) => {
+        const valid = item && typeof item === 'object' && typeof item.id === 'string' && typeof item.name === 'string';
+        if (!valid) fixes.push(`dropped inventory_changes.${field}[${index}] without id/name`);
+        return valid;
+      })
+      .map((item: any) => {
+        const normalizedItem: any = { ...item };
+        if (normalizedItem.quantity !== undefined) {
+          const quantity = Number(normalizedItem.quantity);
+          normalizedItem.quantity = Number.isFinite(quantity) && quantity > 0 ? quantity : 1;
+        }
+        if (normalizedItem.rarity !== undefined && !RARITY_VALUES.includes(normalizedItem.rarity)) {
+          delete normalizedItem.rarity;
+        }
+        if (normalizedItem.magical !== undefined && typeof normalizedItem.magical !== 'boolean') {
+          normalizedItem.magical = normalizedItem.magical === 'true';
+        }
+        if (normalizedItem.properties !== undefined) {
+          normalizedItem.properties = Array.isArray(normalizedItem.properties)
+            ? normalizedItem.properties.filter((property: any) => typeof property === 'string')
+            : [];
+        }
+        for (const key of ['description', 'source', 'category', 'reason']) {
+          if (normalizedItem[key] !== undefined && typeof normalizedItem[key] !== 'string') {
+            delete normalizedItem[key];
+          }
+        }
+        return normalizedItem;
+      });
+  };
+
+  const normalized: any = { ...changes };
+  const gained = normalizeItems(changes.items_gained, 'items_gained');
+  const lost = normalizeItems(changes.items_lost, 'items_lost');
+  if (gained !== undefined) normalized.items_gained = gained;
+  if (lost !== undefined) normalized.items_lost = lost;
+  if (changes.gold_change !== undefined) {
+    const gold = Number(changes.gold_change);
+    if (!Number.isFinite(gold)) fixes.push('reset non-numeric gold_change');
+    normalized.gold_change = Number.isFinite(gold) ? gold : 0;
+  }
+  return normalized;
+}
@@ -0,0 +1,51 @@
+import { SchemaViolation } from './schemaValidator';
+
+/**
+ * How a story turn was accepted:
+ * - valid: the model's first response passed validation
+ * - repaired: the repair round-trip produced a valid turn
+ * - normalized: local normalization salvaged the turn
+ * - failed: nothing usable, the turn was lost
+ */
+export type TurnValidationOutcome = 'valid' | 'repaired' | 'normalized' | 'failed';
+
+/**
+ * In-process counters for story turn validation outcomes
+ */
+export class TurnValidationMetrics {
+  private static instance: TurnValidationMetrics;
+  private outcomes: Record<TurnValidationOutcome, number> = { valid: 0, repaired: 0, normalized: 0, failed: 0 };
+  private violationPaths = new Map<string, number>();
+  private since = new Date();
+
+  static getInstance(): TurnValidationMetrics {
+    if (!TurnValidationMetrics.instance) {
+      TurnValidationMetrics.instance = new TurnValidationMetrics();
+    }
+    return TurnValidationMetrics.instance;
+  }
+
+  record(outcome: TurnValidationOutcome, violations: SchemaViolation[] = []): void {
+    this.outcomes[outcome]++;
+    for (const violation of violations) {
+      // Collapse array indexes so choices[3] and choices[4] count together
+      const path = violation.path.replace(/\[\d+\]/g, '[]');
+      this.violationPaths.set(path, (this.violationPaths.get(path) || 0) + 1);
+    }
+  }
+
+  snapshot() {
+    const total = Object.values(this.outcomes).reduce((sum, count) => sum + count, 0);
+    return {
+      since: this.since.toISOString(),
+      total,
+      outcomes: { ...this.outcomes },
+      rates: Object.fromEntries(
+        Object.entries(this.outcomes).map(([outcome, count]) => [outcome, total > 0 ? count / total : 0])
+      ),
+      violationPaths: Object.fromEntries(
+        Array.from(this.violationPaths.entries()).sort((a, b) => b[1] - a[1])
+      )
+    };
+  }
+}
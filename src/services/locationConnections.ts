@@ -0,0 +1,77 @@
+// Connections between story locations: the "connections" arrays of
+// locations.json, validated when a story loads.
+
+import { ConnectionState, StoryConnection, StoryLocation } from '../types/storyContent';
+
+export const CONNECTION_STATES: ConnectionState[] = ['open', 'locked', 'sealed', 'one-way'];
+
+/**
+ * Validate every location's connections against the story's location ids,
+ * normalizing them in place; returns the errors. The older free-text form ({ "second_chamber": "Locked door" }) is still
+ * read, as open connections to the keys that name locations.
+ */
+export function resolveConnections(locations: StoryLocation[]): string[] {
+  const errors: string[] = [];
+  const locationIds = new Set(locations.map(location => location.id));
+
+  for (const location of locations) {
+    const raw: any = location.connections;
+    if (raw === undefined || raw === null) {
+      location.connections = [];
+      continue;
+    }
+
+    if (!Array.isArray(raw) && typeof raw === 'object') {
+      console.warn(`⚠️ Location ${location.id} uses free-text connections; they are read as open connections`);
+      location.connections = Object.entries(raw)
+        .filter(([to]) => locationIds.has(to))
+        .map(([to, description]) => ({ to, state: 'open', description: String(description) }));
+      continue;
+    }
+
+    if (!Array.isArray(raw)) {
+      errors.push(`locations.json: ${location.id}.connections must be an array`);
+      continue;
+    }
+
+    raw.forEach((connection: StoryConnection, i: number) => {
+      const at = `locations.json: ${location.id}.connections[${i}]`;
+      if (!connection || typeof connection !== 'object') {
+        errors.push(`${at} must be an object`);
+        return;
+      }
+      if (!locationIds.has(connection.to)) {
+        errors.push(`${at}: "to" must be a location id (got ${JSON.stringify(connection.to)})`);
+      }
+      if (!CONNECTION_STATES.includes(connection.state)) {
+        errors.push(`${at}: state must be one of ${CONNECTION_STATES.join(', ')}`);
+      }
+
+      const requires = connection.requires;
+      if (requires !== undefined) {
+        const valid = requires && typeof requires === 'object' &&
+          (typeof requires.item === 'string' || typeof requires.property === 'string');
+        if (!valid) {
+          errors.push(`${at}: requires needs an "item" id or a "property"`);
+        }
+      } else if (connection.state === 'locked') {
+        errors.push(`${at}: locked connections need "requires"`);
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Human-readable unlock requirement, for prompts and rejection reasons
+ */
+export function describeRequirement(connection: StoryConnection): string | undefined {
+  const { requires } = connection;
+  if (!requires) {
+    return undefined;
+  }
+  return requires.item
+    ? `requires the item "${requires.item}"`
+    : `requires an item with the property "${requires.property}"`;
+}
@@ -0,0 +1,89 @@
+import { InventoryItem } from '../types/inventory';
+import { LocationExit, SessionLocation } from '../types/sessionState';
+import { InventoryService } from './inventoryService';
+import { describeRequirement } from './locationConnections';
+import { StoryContentRegistry } from './storyContentRegistry';
+
+export function connectionKey(from: string, to: string): string {
+  return `${from}>${to}`;
+}
+
+/**
+ * Moves between story locations, following the connections in
+ * locations.json. Open and one-way connections can always be used; locked
+ * and sealed ones once the player holds what their requirement names, and
+ * for the rest of the session after they have been passed. A move goes
+ * through one connection per turn.
+ *
+ * Stories without any connections are not constrained.
+ */
+export class LocationGraphService {
+  private static instance: LocationGraphService;
+  private contentRegistry = StoryContentRegistry.getInstance();
+  private inventoryService = InventoryService.getInstance();
+
+  static getInstance(): LocationGraphService {
+    if (!LocationGraphService.instance) {
+      LocationGraphService.instance = new LocationGraphService();
+    }
+    return LocationGraphService.instance;
+  }
+
+  /**
+   * Exits from the session's location, or null when the story has no
+   * location graph
+   */
+  async getExits(storyId: string, location: SessionLocation, userId?: string, sessionId?: string): Promise<LocationExit[] | null> {
+    const pack = await this.contentRegistry.getPack(storyId);
+    if (!pack || !pack.locations.some(candidate => (candidate.connections || []).length > 0)) {
+      return null;
+    }
+
+    const from = location.locationId;
+    const current = pack.locations.find(candidate => candidate.id === from);
+    const connections = current?.connections || [];
+    if (!from || connections.length === 0) {
+      return [];
+    }
+
+    const unlocked = (to: string) => location.unlockedConnections.includes(connectionKey(from, to));
+    let heldItems: InventoryItem[] = [];
+    if (userId && sessionId && connections.some(connection => connection.requires && !unlocked(connection.to))) {
+      try {
+        const inventory = await this.inventoryService.getPlayerInventory(userId, sessionId);
+        heldItems = inventory?.items || [];
+      } catch (error) {
+        console.error('❌ Error loading inventory for location requirements:', error);
+      }
+    }
+
+    return connections.map(connection => ({
+      to: connection.to,
+      name: pack.locations.find(candidate => candidate.id === connection.to)?.name || connection.to,
+      state: connection.state,
+      passable: connection.state === 'open' ||
+        connection.state === 'one-way' ||
+        unlocked(connection.to) ||
+        (!!connection.requires && this.inventoryService.holdsMatchingItem(heldItems, connection.requires)),
+      requirement: describeRequirement(connection),
+      description: connection.description
+    }));
+  }
+
+  /**
+   * Why a move breaks the location graph, or null when it is allowed
+   */
+  checkMove(exits: LocationExit[] | null, from: string | null, to: string): string | null {
+    if (!exits || !from || from === to) {
+      return null;
+    }
+    const exit = exits.find(candidate => candidate.to === to);
+    if (!exit) {
+      return `there is no way from ${from} to ${to}`;
+    }
+    if (!exit.passable) {
+      return `the way to ${exit.name} (${to}) is ${exit.state}${exit.requirement ? ` and ${exit.requirement}` : ''}`;
+    }
+    return null;
+  }
+}
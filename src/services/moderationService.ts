@@ -0,0 +1,388 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDatabase } from '../config/database';
+import {
+  ContentClassification,
+  ContentClassifier,
+  ContentRating,
+  ModerationAction,
+  ModerationDecision,
+  ModerationLogEntry,
+  ModerationMatch,
+  ModerationRuleSet,
+  ModerationStage
+} from '../types/moderation';
+import { CONTENT_RATINGS, getContentClassifier, MODERATION_SEVERITIES, severityRank } from './contentClassifiers';
+import { StoryContentRegistry } from './storyContentRegistry';
+
+const DEFAULT_RULES_FILE = path.join(__dirname, '../../data/moderation-rules.json');
+
+// Substituted for matched terms whose rule has no replacement
+const DEFAULT_REPLACEMENT = '…';
+
+// Longest excerpt of flagged text kept in the moderation log
+const MAX_LOGGED_TEXT_CHARS = 4000;
+
+// Separates turn fields when a turn is classified as one text
+const FIELD_SEPARATOR = '\n\n';
+
+const CREATE_MODERATION_TABLE = `
+  CREATE TABLE IF NOT EXISTS moderation_log (
+    id BIGSERIAL PRIMARY KEY,
+    stage TEXT NOT NULL,
+    action TEXT NOT NULL,
+    rating TEXT NOT NULL,
+    severity TEXT NOT NULL,
+    categories TEXT[] NOT NULL DEFAULT '{}',
+    classifier TEXT NOT NULL,
+    story_id TEXT,
+    session_id TEXT,
+    user_id TEXT,
+    original_text TEXT,
+    rewritten_text TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  );
+  CREATE INDEX IF NOT EXISTS idx_moderation_log_created ON moderation_log (created_at);
+  CREATE INDEX IF NOT EXISTS idx_moderation_log_action_created ON moderation_log (action, created_at);
+`;
+
+export interface ModerationContext {
+  storyId: string;
+  sessionId?: string;
+  userId?: string;
+}
+
+/**
+ * Thrown when player input or a generated turn is blocked
+ */
+export class ContentBlockedError extends Error {
+  constructor(public readonly decision: ModerationDecision) {
+    super(`${decision.stage === 'input' ? 'Player input' : 'Generated turn'} blocked by moderation (${decision.categories.join(', ') || decision.severity})`);
+    this.name = 'ContentBlockedError';
+  }
+}
+
+/**
+ * HTTP status and body for a moderation block, or null for other errors
+ */
+export function describeContentBlock(error: unknown): {
+  status: number;
+  error: string;
+  stage: ModerationStage;
+  rating: ContentRating;
+  categories: string[];
+  retryable: boolean;
+} | null {
+  if (!(error instanceof ContentBlockedError)) {
+    return null;
+  }
+  const { stage, rating, categories } = error.decision;
+  return {
+    status: 422,
+    error: stage === 'input'
+      ? 'Your message is not allowed in this story. Please rephrase it.'
+      : 'The story response was withheld by content moderation. Please try again.',
+    stage,
+    rating,
+    categories,
+    // A new generation may well pass; the same player message will not
+    retryable: stage === 'output'
+  };
+}
+
+/**
+ * Moderates player input before generation and generated turns after it,
+ * against the story's content rating (story.json `contentRating`).
+ *
+ * Text is classified by a swappable classifier (MODERATION_CLASSIFIER: the
+ * rule-based blocklist in data/moderation-rules.json, or a model via the
+ * 'classify' route), and the rating's policy turns the severity found into
+ * allow, rewrite (matched terms replaced) or block. Every decision is logged
+ * to Postgres for review; logging never blocks a turn.
+ */
+export class ModerationService {
+  private static instance: ModerationService;
+  private ruleSet: ModerationRuleSet;
+  private classifier: ContentClassifier;
+  private defaultRating: ContentRating;
+  private contentRegistry = StoryContentRegistry.getInstance();
+  private schemaReady: Promise<void> | null = null;
+
+  constructor(
+    rulesFile: string = process.env.MODERATION_RULES_FILE || DEFAULT_RULES_FILE,
+    classifier?: ContentClassifier
+  ) {
+    this.ruleSet = this.loadRuleSet(rulesFile);
+    this.classifier = classifier || getContentClassifier(process.env.MODERATION_CLASSIFIER || 'rules', this.ruleSet.rules);
+
+    const defaultRating = process.env.MODERATION_DEFAULT_RATING as ContentRating;
+    this.defaultRating = CONTENT_RATINGS.includes(defaultRating) ? defaultRating : 'everyone';
+  }
+
+  static getInstance(): ModerationService {
+    if (!ModerationService.instance) {
+      ModerationService.instance = new ModerationService();
+    }
+    return ModerationService.instance;
+  }
+
+  /**
+   * The story's content rating, or the default for stories without one
+   */
+  async getRating(storyId: string): Promise<ContentRating> {
+    const pack = await this.contentRegistry.getPack(storyId);
+    return pack?.story?.contentRating || this.defaultRating;
+  }
+
+  /**
+   * Moderate the player's message. Returns the text to send to the model
+   * (rewritten if needed); throws ContentBlockedError when blocked.
+   */
+  async moderateInput(text: string, context: ModerationContext): Promise<{ text: string; decision: ModerationDecision }> {
+    const rating = await this.getRating(context.storyId);
+    const classification = await this.classifier.classify(text, { ...context, stage: 'input' });
+    const decision = this.decide('input', rating, classification);
+
+    const rewritten = decision.action === 'rewrite' ? this.rewrite(text, classification.matches, rating) : undefined;
+    this.logDecision(decision, context, text, rewritten);
+
+    if (decision.action === 'block') {
+      throw new ContentBlockedError(decision);
+    }
+    return { text: rewritten ?? text, decision };
+  }
+
+  /**
+   * Moderate a generated story turn (narrative, choice texts and hints).
+   * Returns the turn with flagged terms rewritten if needed; throws
+   * ContentBlockedError when blocked.
+   */
+  async moderateTurn(turn: any, context: ModerationContext): Promise<{ turn: any; decision: ModerationDecision }> {
+    const rating = await this.getRating(context.storyId);
+
+    // Classify the turn as one text, remembering where each field sits
+    const fields: Array<{ get: (target: any) => string; set: (target: any, value: string) => void }> = [
+      { get: target => target.narrative, set: (target, value) => { target.narrative = value; } }
+    ];
+    (turn.choices || []).forEach((choice: any, index: number) => {
+      fields.push({ get: target => target.choices[index].text, set: (target, value) => { target.choices[index].text = value; } });
+      if (typeof choice.hint === 'string' && choice.hint) {
+        fields.push({ get: target => target.choices[index].hint, set: (target, value) => { target.choices[index].hint = value; } });
+      }
+    });
+
+    const texts = fields.map(field => String(field.get(turn) ?? ''));
+    const combined = texts.join(FIELD_SEPARATOR);
+    const classification = await this.classifier.classify(combined, { ...context, stage: 'output' });
+    const decision = this.decide('output', rating, classification);
+
+    if (decision.action !== 'rewrite') {
+      this.logDecision(decision, context, combined);
+      if (decision.action === 'block') {
+        throw new ContentBlockedError(decision);
+      }
+      return { turn, decision };
+    }
+
+    const rewrittenTurn = {
+      ...turn,
+      choices: Array.isArray(turn.choices) ? turn.choices.map((choice: any) => ({ ...choice })) : turn.choices
+    };
+    let offset = 0;
+    texts.forEach((text, index) => {
+      const fieldMatches = classification.matches
+        .filter(match => match.start >= offset && match.end <= offset + text.length)
+        .map(match => ({ ...match, start: match.start - offset, end: match.end - offset }));
+      if (fieldMatches.length > 0) {
+        fields[index].set(rewrittenTurn, this.rewrite(text, fieldMatches, rating));
+      }
+      offset += text.length + FIELD_SEPARATOR.length;
+    });
+
+    this.logDecision(decision, context, combined, fields.map(field => field.get(rewrittenTurn)).join(FIELD_SEPARATOR));
+    return { turn: rewrittenTurn, decision };
+  }
+
+  /**
+   * Moderate a piece of streamed narrative before it is shown. Returns the
+   * text with flagged terms rewritten; throws ContentBlockedError when
+   * blocked. Only decisions that change something are logged, as the
+   * finished turn goes through moderateTurn as well.
+   */
+  async moderateNarrativeChunk(text: string, context: ModerationContext): Promise<string> {
+    const rating = await this.getRating(context.storyId);
+    const classification = await this.classifier.classify(text, { ...context, stage: 'output' });
+    const decision = this.decide('output', rating, classification);
+    if (decision.action === 'allow') {
+      return text;
+    }
+
+    const rewritten = decision.action === 'rewrite' ? this.rewrite(text, classification.matches, rating) : undefined;
+    this.logDecision(decision, context, text, rewritten);
+    if (decision.action === 'block') {
+      throw new ContentBlockedError(decision);
+    }
+    return rewritten ?? text;
+  }
+
+  /**
+   * Recent moderation decisions, newest first
+   */
+  async getDecisions(filter: {
+    action?: ModerationAction;
+    stage?: ModerationStage;
+    storyId?: string;
+    limit?: number;
+  } = {}): Promise<ModerationLogEntry[]> {
+    await this.ensureSchema();
+    const conditions: string[] = [];
+    const values: any[] = [];
+    for (const [column, value] of [['action', filter.action], ['stage', filter.stage], ['story_id', filter.storyId]]) {
+      if (value) {
+        values.push(value);
+        conditions.push(`${column} = $${values.length}`);
+      }
+    }
+    values.push(Math.min(Math.max(filter.limit || 50, 1), 500));
+
+    const result = await getDatabase().query(
+      `SELECT * FROM moderation_log
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY created_at DESC, id DESC
+       LIMIT $${values.length}`,
+      values
+    );
+    return result.rows.map(row => ({
+      id: Number(row.id),
+      stage: row.stage,
+      action: row.action,
+      rating: row.rating,
+      severity: row.severity,
+      categories: row.categories,
+      classifier: row.classifier,
+      storyId: row.story_id,
+      sessionId: row.session_id,
+      userId: row.user_id,
+      originalText: row.original_text,
+      rewrittenText: row.rewritten_text,
+      createdAt: new Date(row.created_at).toISOString()
+    }));
+  }
+
+  /**
+   * Apply the rating's policy to a classification. Rewriting needs located
+   * matches; without them, content above the allowed severity is blocked.
+   */
+  private decide(stage: ModerationStage, rating: ContentRating, classification: ContentClassification): ModerationDecision {
+    const policy = this.ruleSet.ratings[rating];
+    const rank = severityRank(classification.severity);
+
+    let action: ModerationAction = 'allow';
+    if (rank > severityRank(policy.allow)) {
+      const rewritable = classification.matches.some(match => severityRank(match.severity) > severityRank(policy.allow));
+      action = rank >= severityRank(policy.block) || !rewritable ? 'block' : 'rewrite';
+    }
+
+    return {
+      stage,
+      action,
+      rating,
+      severity: classification.severity,
+      categories: classification.categories,
+      classifier: classification.classifier
+    };
+  }
+
+  /**
+   * Replace the matched terms the rating does not allow. Overlapping matches
+   * keep the earliest.
+   */
+  private rewrite(text: string, matches: ModerationMatch[], rating: ContentRating): string {
+    const allowRank = severityRank(this.ruleSet.ratings[rating].allow);
+    let result = '';
+    let cursor = 0;
+    for (const match of [...matches].sort((a, b) => a.start - b.start)) {
+      if (match.start < cursor || severityRank(match.severity) <= allowRank) {
+        continue;
+      }
+      let replacement = match.replacement ?? DEFAULT_REPLACEMENT;
+      // Keep sentence-initial capitals ("Damn!" -> "Blast!")
+      if (/^\p{Lu}/u.test(match.term)) {
+        replacement = replacement.charAt(0).toUpperCase() + replacement.slice(1);
+      }
+      result += text.slice(cursor, match.start) + replacement;
+      cursor = match.end;
+    }
+    return result + text.slice(cursor);
+  }
+
+  /**
+   * Log a decision to the console and, in the background, to Postgres.
+   * Text is only stored for decisions that changed or stopped something.
+   */
+  private logDecision(decision: ModerationDecision, context: ModerationContext, text: string, rewritten?: string): void {
+    if (decision.action !== 'allow') {
+      console.log(`🛡️ Moderation ${decision.action} (${decision.stage}, ${decision.rating}, ${decision.severity}: ${decision.categories.join(', ')}) for ${context.storyId}`);
+    }
+
+    const flagged = decision.action !== 'allow';
+    void (async () => {
+      try {
+        await this.ensureSchema();
+        await getDatabase().query(
+          `INSERT INTO moderation_log (stage, action, rating, severity, categories, classifier, story_id, session_id, user_id, original_text, rewritten_text)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+          [
+            decision.stage,
+            decision.action,
+            decision.rating,
+            decision.severity,
+            decision.categories,
+            decision.classifier,
+            context.storyId,
+            context.sessionId || null,
+            context.userId || null,
+            flagged ? text.slice(0, MAX_LOGGED_TEXT_CHARS) : null,
+            rewritten !== undefined ? rewritten.slice(0, MAX_LOGGED_TEXT_CHARS) : null
+          ]
+        );
+      } catch (error) {
+        console.error('❌ Failed to record moderation decision:', error);
+      }
+    })();
+  }
+
+  private loadRuleSet(rulesFile: string): ModerationRuleSet {
+    const resolved = path.resolve(process.cwd(), rulesFile);
+    const ruleSet = JSON.parse(fs.readFileSync(resolved, 'utf-8')) as ModerationRuleSet;
+
+    for (const rating of CONTENT_RATINGS) {
+      const policy = ruleSet.ratings?.[rating];
+      if (!policy || !MODERATION_SEVERITIES.includes(policy.allow) || !MODERATION_SEVERITIES.includes(policy.block)) {
+        throw new Error(`Missing or invalid "${rating}" rating policy in ${resolved}`);
+      }
+    }
+    (ruleSet.rules || []).forEach((rule, index) => {
+      if (!rule.category || !MODERATION_SEVERITIES.includes(rule.severity) || !Array.isArray(rule.terms)) {
+        throw new Error(`Invalid moderation rule ${index} in ${resolved}`);
+      }
+    });
+
+    console.log(`🛡️ Loaded ${ruleSet.rules.length} moderation rules from ${resolved}`);
+    return ruleSet;
+  }
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = getDatabase()
+        .query(CREATE_MODERATION_TABLE)
+        .then(() => undefined)
+        .catch(error => {
+          // Retry on the next call
+          this.schemaReady = null;
+          throw error;
+        });
+    }
+    return this.schemaReady;
+  }
+}
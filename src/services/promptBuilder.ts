@@ -0,0 +1,166 @@
+import * as crypto from 'crypto';
+import {
+  PromptBudgetReport,
+  PromptSection,
+  PromptSectionAction,
+  PromptSectionReport
+} from '../types/prompt';
+
+export const DEFAULT_PROMPT_TOKEN_LIMIT = 6000;
+
+/**
+ * Rough token estimate (~4 characters per token for English prose). Good
+ * enough for budgeting; the model's own count is reported in usage metadata.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil((text || '').length / 4);
+}
+
+interface SectionState {
+  section: PromptSection;
+  units: string[];
+  summarized: boolean;
+  originalTokens: number;
+  originalUnits: number;
+}
+
+/**
+ * Assembles a prompt from prioritized sections and reduces the lowest
+ * priority sections (summarize, then trim, then drop) until it fits a token
+ * limit. Sections are emitted in the order they were added.
+ */
+export class PromptBuilder {
+  private sections: SectionState[] = [];
+
+  constructor(private tokenLimit: number = DEFAULT_PROMPT_TOKEN_LIMIT) {}
+
+  addSection(section: PromptSection): this {
+    const units = section.units.filter(unit => unit && unit.trim().length > 0);
+    if (units.length === 0) {
+      return this;
+    }
+
+    const state: SectionState = {
+      section,
+      units,
+      summarized: false,
+      originalTokens: 0,
+      originalUnits: units.length
+    };
+    state.originalTokens = estimateTokens(this.renderSection(state));
+    this.sections.push(state);
+    return this;
+  }
+
+  build(): { prompt: string; report: PromptBudgetReport; fingerprint: string } {
+    const originalTokens = estimateTokens(this.render());
+
+    // Per-section budgets first
+    for (const state of this.sections) {
+      if (!state.section.required && state.section.maxTokens !== undefined) {
+        this.reduceSection(state, state.section.maxTokens);
+      }
+    }
+
+    // Then the overall limit, starting with the least important section
+    const reducible = this.sections
+      .filter(state => !state.section.required)
+      .sort((a, b) => a.section.priority - b.section.priority);
+
+    for (const state of reducible) {
+      const overflow = estimateTokens(this.render()) - this.tokenLimit;
+      if (overflow <= 0) break;
+      const sectionTokens = estimateTokens(this.renderSection(state));
+      this.reduceSection(state, Math.max(0, sectionTokens - overflow));
+    }
+
+    const prompt = this.render();
+    const estimatedTokens = estimateTokens(prompt);
+    const sections: PromptSectionReport[] = this.sections.map(state => ({
+      id: state.section.id,
+      priority: state.section.priority,
+      originalTokens: state.originalTokens,
+      finalTokens: state.units.length > 0 ? estimateTokens(this.renderSection(state)) : 0,
+      originalUnits: state.originalUnits,
+      keptUnits: state.units.length,
+      action: this.sectionAction(state)
+    }));
+
+    if (estimatedTokens > this.tokenLimit) {
+      console.warn(`⚠️ Prompt still exceeds token limit after trimming: ~${estimatedTokens}/${this.tokenLimit}`);
+    }
+
+    return {
+      prompt,
+      fingerprint: this.fingerprint(),
+      report: {
+        tokenLimit: this.tokenLimit,
+        originalTokens,
+        estimatedTokens,
+        withinLimit: estimatedTokens <= this.tokenLimit,
+        sections,
+        dropped: sections.filter(section => section.action === 'dropped').map(section => section.id)
+      }
+    };
+  }
+
+  /**
+   * Shrink a section to a token target: summarize if that helps, then remove
+   * units from its trim end. A section with no units left is dropped.
+   */
+  private reduceSection(state: SectionState, targetTokens: number): void {
+    if (estimateTokens(this.renderSection(state)) <= targetTokens) {
+      return;
+    }
+
+    if (state.section.summarize && !state.summarized) {
+      const summary = state.section.summarize();
+      const summaryTokens = estimateTokens(this.renderSection({ ...state, units: [summary] }));
+      if (summary && summaryTokens < estimateTokens(this.renderSection(state))) {
+        state.units = [summary];
+        state.summarized = true;
+        if (summaryTokens <= targetTokens) return;
+      }
+    }
+
+    while (state.units.length > 0 && estimateTokens(this.renderSection(state)) > targetTokens) {
+      if (state.section.trimFrom === 'start') {
+        state.units.shift();
+      } else {
+        state.units.pop();
+      }
+    }
+  }
+
+  private sectionAction(state: SectionState): PromptSectionAction {
+    if (state.units.length === 0) return 'dropped';
+    if (state.summarized) return 'summarized';
+    if (state.units.length < state.originalUnits) return 'trimmed';
+    return 'kept';
+  }
+
+  /**
+   * Hash of the final prompt without volatile sections
+   */
+  private fingerprint(): string {
+    const hash = crypto.createHash('sha256');
+    for (const state of this.sections) {
+      if (state.section.volatile || state.units.length === 0) continue;
+      hash.update(`${state.section.id}\n${this.renderSection(state)}\n`);
+    }
+    return hash.digest('hex');
+  }
+
+  private renderSection(state: SectionState): string {
+    if (state.units.length === 0) return '';
+    const body = state.units.join(state.section.separator ?? '\n');
+    return state.section.header ? `${state.section.header}\n${body}` : body;
+  }
+
+  private render(): string {
+    return this.sections
+      .map(state => this.renderSection(state))
+      .filter(text => text.length > 0)
+      .join('\n\n');
+  }
+}
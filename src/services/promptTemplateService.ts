@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PromptTemplateSet } from '../types/prompt';
+
+const DEFAULT_TEMPLATES_DIR = path.join(__dirname, '../../data/prompts');
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * DM prompt templates, one directory per version under data/prompts (or
+ * PROMPT_TEMPLATES_DIR):
+ *
+ *   <version>/system.txt            system instruction
+ *   <version>/closing.txt           last line of every turn prompt
+ *   <version>/injection-notice.txt  added when the player message looks like prompt injection
+ *   <version>/epilogue.txt          request for the epilogue once a story reaches an ending
+ *   <version>/actions/<type>.txt    guidance per action type, default.txt for the rest
+ *
+ * Templates may use {{variable}} placeholders, filled in at render time.
+ */
+export class PromptTemplateService {
+  private static instance: PromptTemplateService;
+  private templates: Map<string, PromptTemplateSet> = new Map();
+
+  constructor(templatesDir: string = process.env.PROMPT_TEMPLATES_DIR || DEFAULT_TEMPLATES_DIR) {
+    this.loadTemplates(path.resolve(process.cwd(), templatesDir));
+  }
+
+  static getInstance(): PromptTemplateService {
+    if (!PromptTemplateService.instance) {
+      PromptTemplateService.instance = new PromptTemplateService();
+    }
+    return PromptTemplateService.instance;
+  }
+
+  hasVersion(version: string): boolean {
+    return this.templates.has(version);
+  }
+
+  getVersions(): string[] {
+    return Array.from(this.templates.keys());
+  }
+
+  renderSystem(version: string, variables: Record<string, string | number>): string {
+    return this.render(version, 'system', this.getSet(version).system, variables);
+  }
+
+  renderClosing(version: string, variables: Record<string, string | number> = {}): string {
+    return this.render(version, 'closing', this.getSet(version).closing, variables);
+  }
+
+  renderInjectionNotice(version: string, variables: Record<string, string | number> = {}): string {
+    return this.render(version, 'injection-notice', this.getSet(version).injectionNotice, variables);
+  }
+
+  renderEpilogue(version: string, variables: Record<string, string | number>): string {
+    return this.render(version, 'epilogue', this.getSet(version).epilogue, variables);
+  }
+
+  renderActionGuidance(version: string, actionType: string, variables: Record<string, string | number> = {}): string {
+    const set = this.getSet(version);
+    const requested = actionType.toLowerCase();
+    const type = Object.prototype.hasOwnProperty.call(set.actions, requested) ? requested : 'default';
+    return this.render(version, `actions/${type}`, set.actions[type], variables);
+  }
+
+  private getSet(version: string): PromptTemplateSet {
+    const set = this.templates.get(version);
+    if (!set) {
+      throw new Error(`Unknown prompt template version "${version}"`);
+    }
+    return set;
+  }
+
+  private render(version: string, name: string, template: string, variables: Record<string, string | number>): string {
+    return template.replace(VARIABLE_PATTERN, (_, variable: string) => {
+      if (!(variable in variables)) {
+        throw new Error(`Prompt template ${version}/${name} uses unknown variable {{${variable}}}`);
+      }
+      return String(variables[variable]);
+    });
+  }
+
+  private loadTemplates(templatesDir: string): void {
+    const entries = fs.readdirSync(templatesDir, { withFileTypes: true });
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+
+      const versionDir = path.join(templatesDir, entry.name);
+      const read = (file: string) => fs.readFileSync(path.join(versionDir, file), 'utf-8').trimEnd();
+      const actionsDir = path.join(versionDir, 'actions');
+
+      try {
+        const actions: Record<string, string> = {};
+        for (const file of fs.existsSync(actionsDir) ? fs.readdirSync(actionsDir) : []) {
+          if (file.endsWith('.txt')) {
+            actions[path.basename(file, '.txt')] = read(path.join('actions', file));
+          }
+        }
+        if (!actions.default) {
+          throw new Error('missing actions/default.txt');
+        }
+        this.templates.set(entry.name, {
+          version: entry.name,
+          system: read('system.txt'),
+          closing: read('closing.txt'),
+          injectionNotice: read('injection-notice.txt'),
+          epilogue: read('epilogue.txt'),
+          actions
+        });
+      } catch (error) {
+        throw new Error(`Invalid prompt templates in ${versionDir}: ${(error as Error).message}`);
+      }
+    }
+
+    if (this.templates.size === 0) {
+      throw new Error(`No prompt template versions found in ${templatesDir}`);
+    }
+    console.log(`📝 Loaded prompt template versions ${this.getVersions().join(', ')} from ${templatesDir}`);
+  }
+}
@@ -0,0 +1,129 @@
+// Quests of a story: the optional quests.json, validated when a story loads.
+
+import { QuestCondition, QuestObjective, StoryLocation, StoryQuest } from '../types/storyContent';
+
+const CONDITION_FIELDS = ['item', 'property', 'location', 'flag'];
+const FLAG_PATTERN = /^[a-z0-9_]+$/;
+
+/**
+ * Conditions of a completeWhen/failWhen, of which any one is enough
+ */
+export function conditionsOf(value: QuestCondition | QuestCondition[] | undefined): QuestCondition[] {
+  if (!value) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Flags the DM can set to complete or fail an objective
+ */
+export function objectiveFlags(objective: QuestObjective): string[] {
+  return [...conditionsOf(objective.completeWhen), ...conditionsOf(objective.failWhen)]
+    .map(condition => condition.flag)
+    .filter((flag): flag is string => typeof flag === 'string');
+}
+
+/**
+ * Validate quests.json against the story's items and locations
+ */
+export function resolveQuests(
+  data: any,
+  content: { locations: StoryLocation[]; items: any[] }
+): { quests: StoryQuest[]; errors: string[] } {
+  const errors: string[] = [];
+  if (!data) {
+    return { quests: [], errors };
+  }
+  if (!Array.isArray(data.quests)) {
+    return { quests: [], errors: ['quests.json: expected "quests" to be an array'] };
+  }
+
+  const quests: StoryQuest[] = data.quests;
+  const questIds = new Set<string>();
+  const locationIds = new Set(content.locations.map(location => location.id));
+  const itemIds = new Set(content.items.map(item => item.id));
+
+  const checkConditions = (at: string, value: any, required: boolean) => {
+    if (value === undefined) {
+      if (required) errors.push(`${at} is required`);
+      return;
+    }
+    const conditions = Array.isArray(value) ? value : [value];
+    if (conditions.length === 0) {
+      errors.push(`${at} must not be empty`);
+    }
+    conditions.forEach((condition: any, i: number) => {
+      const where = Array.isArray(value) ? `${at}[${i}]` : at;
+      if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+        errors.push(`${where} must be an object`);
+        return;
+      }
+      const fields = Object.keys(condition);
+      if (fields.length === 0 || fields.some(field => !CONDITION_FIELDS.includes(field))) {
+        errors.push(`${where} needs one or more of ${CONDITION_FIELDS.join(', ')} and nothing else`);
+      }
+      if (condition.item !== undefined && !itemIds.has(condition.item)) {
+        errors.push(`${where}: unknown item "${condition.item}"`);
+      }
+      if (condition.property !== undefined && typeof condition.property !== 'string') {
+        errors.push(`${where}: property must be a string`);
+      }
+      if (condition.location !== undefined && !locationIds.has(condition.location)) {
+        errors.push(`${where}: unknown location "${condition.location}"`);
+      }
+      if (condition.flag !== undefined && (typeof condition.flag !== 'string' || !FLAG_PATTERN.test(condition.flag))) {
+        errors.push(`${where}: flag must be lowercase letters, digits and underscores`);
+      }
+    });
+  };
+
+  quests.forEach((quest, i) => {
+    const at = `quests.json: quests[${i}]`;
+    if (typeof quest?.id !== 'string' || typeof quest.name !== 'string') {
+      errors.push(`${at} needs an id and a name`);
+      return;
+    }
+    if (questIds.has(quest.id)) {
+      errors.push(`${at}: duplicate quest id "${quest.id}"`);
+    }
+    questIds.add(quest.id);
+
+    if (!Array.isArray(quest.objectives) || quest.objectives.length === 0) {
+      errors.push(`${at} (${quest.id}) needs at least one objective`);
+      return;
+    }
+
+    const objectiveIds = new Set<string>();
+    quest.objectives.forEach(objective => {
+      if (typeof objective?.id === 'string') objectiveIds.add(objective.id);
+    });
+    const seen = new Set<string>();
+    quest.objectives.forEach((objective, j) => {
+      const where = `${at}.objectives[${j}]`;
+      if (typeof objective?.id !== 'string' || typeof objective.description !== 'string') {
+        errors.push(`${where} needs an id and a description`);
+        return;
+      }
+      if (seen.has(objective.id)) {
+        errors.push(`${where}: duplicate objective id "${objective.id}"`);
+      }
+      seen.add(objective.id);
+      for (const dependency of objective.after || []) {
+        if (!objectiveIds.has(dependency) || dependency === objective.id) {
+          errors.push(`${where}: "after" names "${dependency}", which is not another objective of this quest`);
+        }
+      }
+      checkConditions(`${where}.completeWhen`, objective.completeWhen, true);
+      checkConditions(`${where}.failWhen`, objective.failWhen, false);
+    });
+  });
+
+  quests.forEach((quest, i) => {
+    for (const dependency of quest?.after || []) {
+      if (!questIds.has(dependency) || dependency === quest.id) {
+        errors.push(`quests.json: quests[${i}]: "after" names "${dependency}", which is not another quest`);
+      }
+    }
+  });
+
+  return { quests, errors };
+}
@@ -0,0 +1,225 @@
+import { InventoryItem } from '../types/inventory';
+import {
+  QuestChange,
+  QuestProgress,
+  QuestStatus,
+  QuestView,
+  SessionLocation,
+  SessionQuestState
+} from '../types/sessionState';
+import { QuestCondition, StoryContentPack } from '../types/storyContent';
+import { InventoryService } from './inventoryService';
+import { conditionsOf, objectiveFlags } from './questDefinitions';
+import { SessionStateService } from './sessionStateService';
+import { StoryContentRegistry } from './storyContentRegistry';
+
+interface QuestFacts {
+  items: InventoryItem[];
+  visitedLocationIds: string[];
+  flags: string[];
+}
+
+/**
+ * Quest progress per session, for stories with a quests.json.
+ *
+ * A quest becomes active once the quests in its "after" list are completed,
+ * and an objective once the objectives in its own "after" list are. Active
+ * objectives complete (or fail) when the session meets one of their
+ * conditions: a story item held, a location visited or a flag the DM set.
+ * A quest completes when all its objectives have, and fails with any of them.
+ * Completed and failed are final, even if the player later drops the item.
+ */
+export class QuestService {
+  private static instance: QuestService;
+  private contentRegistry = StoryContentRegistry.getInstance();
+  private inventoryService = InventoryService.getInstance();
+  private sessionStateService = SessionStateService.getInstance();
+
+  static getInstance(): QuestService {
+    if (!QuestService.instance) {
+      QuestService.instance = new QuestService();
+    }
+    return QuestService.instance;
+  }
+
+  /**
+   * The session's quests as they stand at its location, without saving
+   */
+  async getProgress(
+    storyId: string,
+    location: SessionLocation,
+    userId?: string,
+    sessionId?: string
+  ): Promise<{ quests: QuestView[]; flags: string[] }> {
+    const pack = await this.contentRegistry.getPack(storyId);
+    if (!pack || pack.quests.length === 0) {
+      return { quests: [], flags: [] };
+    }
+
+    const state = await this.sessionStateService.getQuestState(storyId, sessionId);
+    const facts = await this.loadFacts(location, state.flags, userId, sessionId);
+    const { progress } = this.evaluate(pack, state, facts);
+    return { quests: this.toViews(pack, progress), flags: state.flags };
+  }
+
+  /**
+   * Re-evaluate the session's quests after a turn has been applied, with the
+   * flags the DM set in it, and save the result
+   */
+  async advance(
+    storyId: string,
+    location: SessionLocation,
+    flagsSet: string[],
+    userId?: string,
+    sessionId?: string
+  ): Promise<{ quests: QuestView[]; flags: string[]; changes: QuestChange[] }> {
+    const pack = await this.contentRegistry.getPack(storyId);
+    if (!pack || pack.quests.length === 0) {
+      return { quests: [], flags: [], changes: [] };
+    }
+
+    const state = await this.sessionStateService.getQuestState(storyId, sessionId);
+    const flags = Array.from(new Set([...state.flags, ...flagsSet]));
+    const facts = await this.loadFacts(location, flags, userId, sessionId);
+    const { progress, changes } = this.evaluate(pack, state, facts);
+
+    for (const change of changes) {
+      console.log(`🏁 Quest ${change.questId}${change.objectiveId ? `/${change.objectiveId}` : ''} is now ${change.status}`);
+    }
+    if (changes.length > 0 || flags.length !== state.flags.length) {
+      await this.sessionStateService.saveQuestState(storyId, sessionId, { flags, quests: progress });
+    }
+
+    return { quests: this.toViews(pack, progress), flags, changes };
+  }
+
+  /**
+   * Flags the DM may set this turn: those of the active objectives
+   */
+  settableFlags(quests: QuestView[]): string[] {
+    return quests
+      .filter(quest => quest.status === 'active')
+      .flatMap(quest => quest.objectives.filter(objective => objective.status === 'active'))
+      .flatMap(objective => objective.flags);
+  }
+
+  private async loadFacts(
+    location: SessionLocation,
+    flags: string[],
+    userId?: string,
+    sessionId?: string
+  ): Promise<QuestFacts> {
+    let items: InventoryItem[] = [];
+    if (userId && sessionId) {
+      try {
+        const inventory = await this.inventoryService.getPlayerInventory(userId, sessionId);
+        items = inventory?.items || [];
+      } catch (error) {
+        console.error('❌ Error loading inventory for quests:', error);
+      }
+    }
+    return { items, visitedLocationIds: location.visitedLocationIds, flags };
+  }
+
+  /**
+   * Apply the story's quest rules to the stored progress until nothing
+   * changes, and list what changed
+   */
+  private evaluate(
+    pack: StoryContentPack,
+    state: SessionQuestState,
+    facts: QuestFacts
+  ): { progress: Record<string, QuestProgress>; changes: QuestChange[] } {
+    const progress: Record<string, QuestProgress> = {};
+    for (const quest of pack.quests) {
+      const stored = state.quests[quest.id];
+      progress[quest.id] = {
+        status: stored?.status || 'locked',
+        objectives: Object.fromEntries(
+          quest.objectives.map(objective => [objective.id, stored?.objectives[objective.id] || 'locked'])
+        )
+      };
+    }
+    const before: Record<string, QuestProgress> = JSON.parse(JSON.stringify(progress));
+    const isDone = (status: QuestStatus) => status === 'completed' || status === 'failed';
+    const anyMet = (conditions: QuestCondition[]) => conditions.some(condition => this.isMet(condition, facts));
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const quest of pack.quests) {
+        const current = progress[quest.id];
+        if (isDone(current.status)) continue;
+
+        if (current.status === 'locked') {
+          if (!(quest.after || []).every(id => progress[id]?.status === 'completed')) continue;
+          current.status = 'active';
+          changed = true;
+        }
+
+        for (const objective of quest.objectives) {
+          const status = current.objectives[objective.id];
+          if (isDone(status)) continue;
+          if (status === 'locked') {
+            if (!(objective.after || []).every(id => current.objectives[id] === 'completed')) continue;
+            current.objectives[objective.id] = 'active';
+            changed = true;
+          }
+          if (anyMet(conditionsOf(objective.failWhen))) {
+            current.objectives[objective.id] = 'failed';
+            changed = true;
+          } else if (anyMet(conditionsOf(objective.completeWhen))) {
+            current.objectives[objective.id] = 'completed';
+            changed = true;
+          }
+        }
+
+        const statuses = Object.values(current.objectives);
+        if (statuses.includes('failed')) {
+          current.status = 'failed';
+          changed = true;
+        } else if (statuses.every(status => status === 'completed')) {
+          current.status = 'completed';
+          changed = true;
+        }
+      }
+    }
+
+    const changes: QuestChange[] = [];
+    for (const quest of pack.quests) {
+      if (progress[quest.id].status !== before[quest.id].status) {
+        changes.push({ questId: quest.id, status: progress[quest.id].status });
+      }
+      for (const objective of quest.objectives) {
+        const status = progress[quest.id].objectives[objective.id];
+        if (status !== before[quest.id].objectives[objective.id]) {
+          changes.push({ questId: quest.id, objectiveId: objective.id, status });
+        }
+      }
+    }
+    return { progress, changes };
+  }
+
+  // Every field a condition gives must hold
+  private isMet(condition: QuestCondition, facts: QuestFacts): boolean {
+    return (condition.item === undefined || this.inventoryService.holdsMatchingItem(facts.items, { item: condition.item })) &&
+      (condition.property === undefined || this.inventoryService.holdsMatchingItem(facts.items, { property: condition.property })) &&
+      (condition.location === undefined || facts.visitedLocationIds.includes(condition.location)) &&
+      (condition.flag === undefined || facts.flags.includes(condition.flag));
+  }
+
+  private toViews(pack: StoryContentPack, progress: Record<string, QuestProgress>): QuestView[] {
+    return pack.quests.map(quest => ({
+      id: quest.id,
+      name: quest.name,
+      description: quest.description,
+      status: progress[quest.id].status,
+      objectives: quest.objectives.map(objective => ({
+        id: objective.id,
+        description: objective.description,
+        status: progress[quest.id].objectives[objective.id],
+        flags: objectiveFlags(objective)
+      }))
+    }));
+  }
+}
@@ -0,0 +1,307 @@
+import { getDatabase } from '../config/database';
+import { LocationExit, LocationUpdate, SessionEnding, SessionFinalTurn, SessionLocation, SessionQuestState } from '../types/sessionState';
+import { StoryContentPack } from '../types/storyContent';
+import { resolveLocationId } from '../utils/locationResolver';
+import { StoryContentRegistry } from './storyContentRegistry';
+import { connectionKey, LocationGraphService } from './locationGraphService';
+
+const CREATE_SESSION_STATE_TABLE = `
+  CREATE TABLE IF NOT EXISTS session_state (
+    session_id TEXT PRIMARY KEY,
+    story_id TEXT NOT NULL,
+    location_id TEXT,
+    visited_location_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  );
+  ALTER TABLE session_state ADD COLUMN IF NOT EXISTS unlocked_connections JSONB NOT NULL DEFAULT '[]'::jsonb;
+  ALTER TABLE session_state ADD COLUMN IF NOT EXISTS flags JSONB NOT NULL DEFAULT '[]'::jsonb;
+  ALTER TABLE session_state ADD COLUMN IF NOT EXISTS quest_progress JSONB NOT NULL DEFAULT '{}'::jsonb;
+  ALTER TABLE session_state ADD COLUMN IF NOT EXISTS ending JSONB;
+  ALTER TABLE session_state ADD COLUMN IF NOT EXISTS final_turn JSONB;
+`;
+
+/**
+ * Server-side game state per play session, stored in Postgres: the current
+ * location, the locations visited so far, the locked connections passed, the
+ * story flags and quest progress (see QuestService) and the ending reached
+ * (see StoryEndingService).
+ *
+ * The location follows the model's context.location, resolved against the
+ * story's location names and ids; reports that match no location, or moves
+ * the location graph does not allow (see LocationGraphService), leave it
+ * unchanged. Sessions start at story.json's startingLocation, or the first
+ * entry of locations.json. Without a session id or database, every turn
+ * starts from there.
+ */
+export class SessionStateService {
+  private static instance: SessionStateService;
+  private contentRegistry = StoryContentRegistry.getInstance();
+  private locationGraph = LocationGraphService.getInstance();
+  private schemaReady: Promise<void> | null = null;
+
+  static getInstance(): SessionStateService {
+    if (!SessionStateService.instance) {
+      SessionStateService.instance = new SessionStateService();
+    }
+    return SessionStateService.instance;
+  }
+
+  async getLocation(storyId: string, sessionId?: string): Promise<SessionLocation> {
+    const pack = await this.contentRegistry.getPack(storyId);
+    const start = this.startingLocation(pack);
+    if (!sessionId) {
+      return start;
+    }
+
+    try {
+      await this.ensureSchema();
+      const result = await getDatabase().query(
+        'SELECT location_id, visited_location_ids, unlocked_connections FROM session_state WHERE session_id = $1 AND story_id = $2',
+        [sessionId, storyId]
+      );
+      const row = result.rows[0];
+      // Locations removed from the story since the last turn restart the session's position
+      if (!row || !pack?.locations.some(location => location.id === row.location_id)) {
+        return start;
+      }
+      return {
+        locationId: row.location_id,
+        visitedLocationIds: (row.visited_location_ids as string[]).filter(id =>
+          pack.locations.some(location => location.id === id)
+        ),
+        unlockedConnections: row.unlocked_connections as string[]
+      };
+    } catch (error) {
+      console.error('❌ Failed to load session location:', error);
+      return start;
+    }
+  }
+
+  /**
+   * Where a turn leaves the player, from the location the model reported and
+   * the exits of the session's location (null when unconstrained)
+   */
+  async resolveLocationUpdate(
+    storyId: string,
+    current: SessionLocation,
+    reported: string | undefined,
+    exits: LocationExit[] | null
+  ): Promise<LocationUpdate> {
+    const pack = await this.contentRegistry.getPack(storyId);
+    const unchanged: LocationUpdate = {
+      ...current,
+      previousLocationId: current.locationId,
+      moved: false,
+      reported,
+      resolved: false
+    };
+    if (!pack || typeof reported !== 'string' || !reported.trim()) {
+      return unchanged;
+    }
+
+    const locationId = resolveLocationId(pack.locations, reported);
+    if (!locationId) {
+      console.log(`📍 Reported location "${reported}" matches no location in ${storyId}, staying at ${current.locationId}`);
+      return unchanged;
+    }
+
+    const rejectedReason = this.locationGraph.checkMove(exits, current.locationId, locationId);
+    if (rejectedReason) {
+      console.warn(`🚧 Rejected move to ${locationId}: ${rejectedReason}`);
+      return { ...unchanged, resolved: true, rejectedReason };
+    }
+
+    const moved = locationId !== current.locationId;
+    if (!moved) {
+      return { ...unchanged, resolved: true };
+    }
+
+    console.log(`📍 Session moved from ${current.locationId} to ${locationId}`);
+    const exit = exits?.find(candidate => candidate.to === locationId);
+    const key = connectionKey(current.locationId!, locationId);
+    const passedGate = (exit?.state === 'locked' || exit?.state === 'sealed') && !current.unlockedConnections.includes(key);
+    return {
+      locationId,
+      visitedLocationIds: current.visitedLocationIds.includes(locationId)
+        ? current.visitedLocationIds
+        : [...current.visitedLocationIds, locationId],
+      unlockedConnections: passedGate ? [...current.unlockedConnections, key] : current.unlockedConnections,
+      previousLocationId: current.locationId,
+      moved,
+      reported,
+      resolved: true
+    };
+  }
+
+  /**
+   * Persist a session's location; never fails the turn
+   */
+  async saveLocation(storyId: string, sessionId: string | undefined, location: SessionLocation): Promise<void> {
+    if (!sessionId) {
+      return;
+    }
+    try {
+      await this.ensureSchema();
+      await getDatabase().query(
+        `INSERT INTO session_state (session_id, story_id, location_id, visited_location_ids, unlocked_connections, updated_at)
+         VALUES ($1, $2, $3, $4, $5, NOW())
+         ON CONFLICT (session_id) DO UPDATE
+         SET story_id = EXCLUDED.story_id,
+             location_id = EXCLUDED.location_id,
+             visited_location_ids = EXCLUDED.visited_location_ids,
+             unlocked_connections = EXCLUDED.unlocked_connections,
+             updated_at = NOW()`,
+        [
+          sessionId,
+          storyId,
+          location.locationId,
+          JSON.stringify(location.visitedLocationIds),
+          JSON.stringify(location.unlockedConnections)
+        ]
+      );
+    } catch (error) {
+      console.error('❌ Failed to save session location:', error);
+    }
+  }
+
+  async getQuestState(storyId: string, sessionId?: string): Promise<SessionQuestState> {
+    const empty: SessionQuestState = { flags: [], quests: {} };
+    if (!sessionId) {
+      return empty;
+    }
+
+    try {
+      await this.ensureSchema();
+      const result = await getDatabase().query(
+        'SELECT flags, quest_progress FROM session_state WHERE session_id = $1 AND story_id = $2',
+        [sessionId, storyId]
+      );
+      const row = result.rows[0];
+      return row ? { flags: row.flags as string[], quests: row.quest_progress } : empty;
+    } catch (error) {
+      console.error('❌ Failed to load session quests:', error);
+      return empty;
+    }
+  }
+
+  /**
+   * Persist a session's flags and quest progress; never fails the turn
+   */
+  async saveQuestState(storyId: string, sessionId: string | undefined, state: SessionQuestState): Promise<void> {
+    if (!sessionId) {
+      return;
+    }
+    try {
+      await this.ensureSchema();
+      await getDatabase().query(
+        `INSERT INTO session_state (session_id, story_id, flags, quest_progress, updated_at)
+         VALUES ($1, $2, $3, $4, NOW())
+         ON CONFLICT (session_id) DO UPDATE
+         SET flags = EXCLUDED.flags,
+             quest_progress = EXCLUDED.quest_progress,
+             updated_at = NOW()`,
+        [sessionId, storyId, JSON.stringify(state.flags), JSON.stringify(state.quests)]
+      );
+    } catch (error) {
+      console.error('❌ Failed to save session quests:', error);
+    }
+  }
+
+  async getEnding(storyId: string, sessionId?: string): Promise<SessionEnding | null> {
+    if (!sessionId) {
+      return null;
+    }
+    try {
+      await this.ensureSchema();
+      const result = await getDatabase().query(
+        'SELECT ending FROM session_state WHERE session_id = $1 AND story_id = $2',
+        [sessionId, storyId]
+      );
+      return result.rows[0]?.ending || null;
+    } catch (error) {
+      console.error('❌ Failed to load session ending:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Persist the ending a session reached together with the response of the
+   * turn that reached it and the player who played that turn, in one write so
+   * a retry never finds the ending without the turn; never fails the turn
+   */
+  async saveEnding(
+    storyId: string,
+    sessionId: string | undefined,
+    ending: SessionEnding,
+    finalTurn: SessionFinalTurn
+  ): Promise<void> {
+    if (!sessionId) {
+      return;
+    }
+    try {
+      await this.ensureSchema();
+      await getDatabase().query(
+        `INSERT INTO session_state (session_id, story_id, ending, final_turn, updated_at)
+         VALUES ($1, $2, $3, $4, NOW())
+         ON CONFLICT (session_id) DO UPDATE
+         SET ending = EXCLUDED.ending,
+             final_turn = EXCLUDED.final_turn,
+             updated_at = NOW()`,
+        [sessionId, storyId, JSON.stringify(ending), JSON.stringify(finalTurn)]
+      );
+    } catch (error) {
+      console.error('❌ Failed to save session ending:', error);
+    }
+  }
+
+  /**
+   * The turn that reached the session's ending, as sent, and who played it
+   */
+  async getFinalTurn(storyId: string, sessionId?: string): Promise<SessionFinalTurn | null> {
+    if (!sessionId) {
+      return null;
+    }
+    try {
+      await this.ensureSchema();
+      const result = await getDatabase().query(
+        'SELECT final_turn FROM session_state WHERE session_id = $1 AND story_id = $2',
+        [sessionId, storyId]
+      );
+      return result.rows[0]?.final_turn || null;
+    } catch (error) {
+      console.error('❌ Failed to load final turn:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Forget a session's state, e.g. when it is restarted or deleted
+   */
+  async clear(sessionId: string): Promise<void> {
+    try {
+      await this.ensureSchema();
+      await getDatabase().query('DELETE FROM session_state WHERE session_id = $1', [sessionId]);
+    } catch (error) {
+      console.error('❌ Failed to clear session state:', error);
+    }
+  }
+
+  private startingLocation(pack: StoryContentPack | null): SessionLocation {
+    const locationId = pack?.story?.startingLocation || pack?.locations[0]?.id || null;
+    return { locationId, visitedLocationIds: locationId ? [locationId] : [], unlockedConnections: [] };
+  }
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = getDatabase()
+        .query(CREATE_SESSION_STATE_TABLE)
+        .then(() => undefined)
+        .catch(error => {
+          // Retry on the next call
+          this.schemaReady = null;
+          throw error;
+        });
+    }
+    return this.schemaReady;
+  }
+}
@@ -0,0 +1,346 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { watch, FSWatcher } from 'fs';
+import { StoryContentPack, StoryDmProfile } from '../types/storyContent';
+import { StoryItemTemplate } from '../types/inventory';
+import { CONTENT_RATINGS } from './contentClassifiers';
+import { DEFAULT_DM_PROFILE, resolveDmProfile } from './dmProfile';
+import { resolveConnections } from './locationConnections';
+import { resolveQuests } from './questDefinitions';
+import { resolveEndings } from './storyEndings';
+
+type ReloadListener = (storyId: string, pack: StoryContentPack | null) => void;
+
+// Wait for editors to finish writing before reloading a story
+const RELOAD_DEBOUNCE_MS = 250;
+
+/**
+ * Single source of truth for the story content packs in data/stories.
+ *
+ * Every story folder is loaded and validated as a whole; a pack is only
+ * swapped in if all of its files parse and validate, so consumers never see
+ * a half-edited story. In development the stories directory is watched and
+ * packs hot-reload, notifying listeners (item templates, RAG indexes) so
+ * everything refreshes together.
+ */
+export class StoryContentRegistry {
+  private static instance: StoryContentRegistry;
+  private packs: Map<string, StoryContentPack> = new Map();
+  private itemTemplates: Map<string, StoryItemTemplate[]> = new Map();
+  private listeners: ReloadListener[] = [];
+  private reloadTimers: Map<string, NodeJS.Timeout> = new Map();
+  private watcher: FSWatcher | null = null;
+  private storyWatchers: Map<string, FSWatcher> = new Map();
+  private initialLoad: Promise<void>;
+  private storiesPath: string;
+
+  private constructor() {
+    this.storiesPath = path.join(__dirname, '../../data/stories');
+    this.initialLoad = this.loadAll();
+  }
+
+  public static getInstance(): StoryContentRegistry {
+    if (!StoryContentRegistry.instance) {
+      StoryContentRegistry.instance = new StoryContentRegistry();
+    }
+    return StoryContentRegistry.instance;
+  }
+
+  /**
+   * Resolves once every story has been loaded for the first time
+   */
+  ready(): Promise<void> {
+    return this.initialLoad;
+  }
+
+  async getPack(storyId: string): Promise<StoryContentPack | null> {
+    await this.initialLoad;
+    return this.packs.get(storyId) || null;
+  }
+
+  async getAllPacks(): Promise<StoryContentPack[]> {
+    await this.initialLoad;
+    return Array.from(this.packs.values());
+  }
+
+  /**
+   * DM profile of a story, or the defaults for an unknown story
+   */
+  async getDmProfile(storyId: string): Promise<StoryDmProfile> {
+    const pack = await this.getPack(storyId);
+    return pack?.dmProfile || DEFAULT_DM_PROFILE;
+  }
+
+  /**
+   * Item templates for a story. Synchronous; empty until the first load completes.
+   */
+  getItemTemplates(storyId: string): StoryItemTemplate[] {
+    return this.itemTemplates.get(storyId) || [];
+  }
+
+  /**
+   * Register a listener called after a story is swapped in or removed
+   */
+  onStoryReloaded(listener: ReloadListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Watch the stories directory and hot-reload packs when files change.
+   * Recursive fs.watch is unavailable on Linux before Node 20, so the
+   * directory itself is watched for stories being added or removed, and each
+   * story folder separately for edits to its files.
+   */
+  startWatching(): void {
+    if (this.watcher) {
+      return;
+    }
+
+    try {
+      this.watcher = watch(this.storiesPath, (_, filename) => {
+        if (!filename) return;
+        const storyId = filename.toString();
+        this.watchStory(storyId);
+        this.scheduleReload(storyId);
+      });
+      this.initialLoad.then(() => {
+        for (const storyId of this.packs.keys()) {
+          this.watchStory(storyId);
+        }
+      });
+      console.log(`👀 Watching ${this.storiesPath} for story content changes`);
+    } catch (error) {
+      console.error('❌ Could not watch stories directory:', error);
+    }
+  }
+
+  stopWatching(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    for (const watcher of this.storyWatchers.values()) {
+      watcher.close();
+    }
+    this.storyWatchers.clear();
+    for (const timer of this.reloadTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.reloadTimers.clear();
+  }
+
+  /**
+   * Watch one story folder, replacing a watcher whose folder was removed
+   */
+  private watchStory(storyId: string): void {
+    if (!this.watcher) {
+      return;
+    }
+
+    this.storyWatchers.get(storyId)?.close();
+    this.storyWatchers.delete(storyId);
+    try {
+      const watcher = watch(path.join(this.storiesPath, storyId), () => this.scheduleReload(storyId));
+      // The folder was deleted or renamed; the stories directory watcher reports it
+      watcher.on('error', () => {
+        watcher.close();
+        if (this.storyWatchers.get(storyId) === watcher) {
+          this.storyWatchers.delete(storyId);
+        }
+      });
+      this.storyWatchers.set(storyId, watcher);
+    } catch {
+      // Not a directory (or already gone): nothing to watch
+    }
+  }
+
+  /**
+   * Reload a single story. Keeps the previous pack if the new files are invalid.
+   */
+  async reloadStory(storyId: string): Promise<boolean> {
+    const storyDir = path.join(this.storiesPath, storyId);
+
+    try {
+      await fs.access(path.join(storyDir, 'story.json'));
+    } catch {
+      if (this.packs.has(storyId)) {
+        this.packs.delete(storyId);
+        this.itemTemplates.delete(storyId);
+        console.log(`🗑️ Story removed: ${storyId}`);
+        this.notify(storyId, null);
+      }
+      return false;
+    }
+
+    try {
+      const previous = this.packs.get(storyId);
+      const pack = await this.loadPack(storyId, (previous?.version || 0) + 1);
+      const templates = this.buildItemTemplates(storyId, pack.items);
+
+      // Swap both maps together so readers never mix old and new content
+      this.packs.set(storyId, pack);
+      this.itemTemplates.set(storyId, templates);
+
+      console.log(`✅ Loaded story content pack ${storyId} v${pack.version} (${templates.length} item templates)`);
+      this.notify(storyId, pack);
+      return true;
+    } catch (error) {
+      console.error(`❌ Invalid story content for ${storyId}, keeping previous version:`, (error as Error).message);
+      return false;
+    }
+  }
+
+  private async loadAll(): Promise<void> {
+    try {
+      const entries = await fs.readdir(this.storiesPath, { withFileTypes: true });
+      for (const entry of entries) {
+        if (entry.isDirectory()) {
+          await this.reloadStory(entry.name);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Error loading story content packs:', error);
+    }
+  }
+
+  private scheduleReload(storyId: string): void {
+    const existing = this.reloadTimers.get(storyId);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    this.reloadTimers.set(storyId, setTimeout(() => {
+      this.reloadTimers.delete(storyId);
+      console.log(`🔄 Story content changed, reloading ${storyId}`);
+      this.reloadStory(storyId).catch(error =>
+        console.error(`❌ Error reloading story ${storyId}:`, error)
+      );
+    }, RELOAD_DEBOUNCE_MS));
+  }
+
+  private notify(storyId: string, pack: StoryContentPack | null): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(storyId, pack);
+      } catch (error) {
+        console.error(`❌ Story reload listener failed for ${storyId}:`, error);
+      }
+    }
+  }
+
+  private async loadPack(storyId: string, version: number): Promise<StoryContentPack> {
+    const storyDir = path.join(this.storiesPath, storyId);
+    const errors: string[] = [];
+
+    const readJson = async (file: string, required: boolean): Promise<any> => {
+      try {
+        return JSON.parse(await fs.readFile(path.join(storyDir, file), 'utf-8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT' && !required) {
+          return null;
+        }
+        errors.push(`${file}: ${(error as Error).message}`);
+        return null;
+      }
+    };
+
+    const story = await readJson('story.json', true);
+    const charactersData = await readJson('characters.json', false);
+    const locationsData = await readJson('locations.json', false);
+    const storyBeatsData = await readJson('story_beats.json', false);
+    const loreData = await readJson('lore.json', false);
+    const itemsData = await readJson('items.json', false);
+    const questsData = await readJson('quests.json', false);
+
+    let dmProfile = DEFAULT_DM_PROFILE;
+    if (story) {
+      if (story.id !== storyId) errors.push(`story.json: id "${story.id}" does not match folder "${storyId}"`);
+      if (typeof story.name !== 'string') errors.push('story.json: missing name');
+      if (story.contentRating !== undefined && !CONTENT_RATINGS.includes(story.contentRating)) {
+        errors.push(`story.json: contentRating must be one of ${CONTENT_RATINGS.join(', ')}`);
+      }
+      const resolved = resolveDmProfile(story.dmProfile);
+      resolved.errors.forEach(error => errors.push(`story.json: ${error}`));
+      dmProfile = resolved.profile;
+    }
+
+    const checkList = (file: string, data: any, key: string, requiredFields: string[]): any[] => {
+      if (!data) return [];
+      if (!Array.isArray(data[key])) {
+        errors.push(`${file}: expected "${key}" to be an array`);
+        return [];
+      }
+      data[key].forEach((entry: any, i: number) => {
+        for (const field of requiredFields) {
+          if (entry?.[field] === undefined || entry?.[field] === null) {
+            errors.push(`${file}: ${key}[${i}] is missing "${field}"`);
+          }
+        }
+      });
+      return data[key];
+    };
+
+    const pack: StoryContentPack = {
+      storyId,
+      story,
+      dmProfile,
+      characters: checkList('characters.json', charactersData, 'characters', ['id', 'name']),
+      locations: checkList('locations.json', locationsData, 'locations', ['id', 'name']),
+      storyBeats: checkList('story_beats.json', storyBeatsData, 'story_beats', ['id', 'name']),
+      lore: checkList('lore.json', loreData, 'lore', ['id', 'topic', 'description']),
+      items: checkList('items.json', itemsData, 'items', ['id', 'name', 'type']),
+      quests: [],
+      endings: [],
+      version,
+      loadedAt: new Date()
+    };
+
+    resolveConnections(pack.locations).forEach(error => errors.push(error));
+
+    const resolvedQuests = resolveQuests(questsData, pack);
+    resolvedQuests.errors.forEach(error => errors.push(error));
+    pack.quests = resolvedQuests.quests;
+
+    if (story) {
+      const resolvedEndings = resolveEndings(story.endings, pack);
+      resolvedEndings.errors.forEach(error => errors.push(`story.json: ${error}`));
+      pack.endings = resolvedEndings.endings;
+    }
+
+    if (story?.startingLocation !== undefined && !pack.locations.some(location => location.id === story.startingLocation)) {
+      errors.push(`story.json: startingLocation "${story.startingLocation}" is not a location in locations.json`);
+    }
+
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+
+    return pack;
+  }
+
+  private buildItemTemplates(storyId: string, items: any[]): StoryItemTemplate[] {
+    return items.map((item: any) => ({
+      id: item.id,
+      name: item.name,
+      description: item.description,
+      type: item.type,
+      category: item.category,
+      rarity: item.rarity,
+      baseValue: item.base_value || 0,
+      baseWeight: item.base_weight || 1,
+      maxStack: item.max_stack || 1,
+      baseDamage: item.base_damage || 0,
+      baseDefense: item.base_defense || 0,
+      baseHealing: item.base_healing || 0,
+      baseDurability: item.base_durability || 100,
+      magical: item.magical || false,
+      cursed: item.cursed || false,
+      properties: item.properties || [],
+      usableInCombat: item.usable_in_combat || false,
+      consumable: item.consumable || false,
+      equipable: item.equipable || false,
+      storyId,
+      availableInStory: true,
+      iconUrl: item.icon_url || '',
+      loreText: item.lore_text || ''
+    }));
+  }
+}
@@ -1,5 +1,5 @@
-import path from 'path';
-import fs from 'fs/promises';
+import { StoryRetrievalConfig } from '../types/retrieval';
+import { StoryContentRegistry } from './storyContentRegistry';
 
 export interface StoryMetadata {
   id: string;
@@ -9,15 +9,16 @@ export interface StoryMetadata {
   estimatedDuration: string;
   tags: string[];
   startingPrompt: string;
+  retrieval?: Partial<StoryRetrievalConfig>;
   created: string;
   updated: string;
 }
 
 export class StoryDiscoveryService {
-  private storiesPath: string;
+  private contentRegistry: StoryContentRegistry;
 
   constructor() {
-    this.storiesPath = path.join(__dirname, '../../data/stories');
+    this.contentRegistry = StoryContentRegistry.getInstance();
   }
 
   /**
@@ -25,20 +26,8 @@ export class StoryDiscoveryService {
    */
   async getAllStories(): Promise<StoryMetadata[]> {
     try {
-      const storyDirectories = await fs.readdir(this.storiesPath, { withFileTypes: true });
-      const stories: StoryMetadata[] = [];
-
-      for (const dir of storyDirectories) {
-        if (dir.isDirectory()) {
-          try {
-            const storyPath = path.join(this.storiesPath, dir.name, 'story.json');
-            const storyData = JSON.parse(await fs.readFile(storyPath, 'utf-8'));
-            stories.push(storyData);
-          } catch (error) {
-            console.warn(`⚠️ Could not load story from ${dir.name}:`, (error as Error).message);
-          }
-        }
-      }
+      const packs = await this.contentRegistry.getAllPacks();
+      const stories: StoryMetadata[] = packs.map(pack => pack.story);
 
       console.log(`✅ Loaded ${stories.length} available stories`);
       return stories.sort((a, b) => a.name.localeCompare(b.name));
@@ -53,30 +42,21 @@ export class StoryDiscoveryService {
    * Get specific story metadata
    */
   async getStory(storyId: string): Promise<StoryMetadata | null> {
-    try {
-      const storyPath = path.join(this.storiesPath, storyId, 'story.json');
-      const storyData = JSON.parse(await fs.readFile(storyPath, 'utf-8'));
-      
-      console.log(`✅ Loaded story: ${storyData.name}`);
-      return storyData;
-
-    } catch (error) {
-      console.error(`❌ Error loading story ${storyId}:`, error);
+    const pack = await this.contentRegistry.getPack(storyId);
+    if (!pack) {
+      console.error(`❌ Story not found: ${storyId}`);
       return null;
     }
+
+    console.log(`✅ Loaded story: ${pack.story.name}`);
+    return pack.story;
   }
 
   /**
    * Check if story exists
    */
   async storyExists(storyId: string): Promise<boolean> {
-    try {
-      const storyPath = path.join(this.storiesPath, storyId, 'story.json');
-      await fs.access(storyPath);
-      return true;
-    } catch {
-      return false;
-    }
+    return (await this.contentRegistry.getPack(storyId)) !== null;
   }
 
   /**
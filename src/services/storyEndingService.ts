@@ -0,0 +1,92 @@
+import { SessionEnding, SessionFinalTurn } from '../types/sessionState';
+import { StoryEnding } from '../types/storyContent';
+import { SessionStateService } from './sessionStateService';
+import { StoryContentRegistry } from './storyContentRegistry';
+import { StorySessionService } from './storySessionService';
+import { EndingFacts, findEnding } from './storyEndings';
+
+/**
+ * Ends sessions whose story reached one of the endings in story.json. The
+ * ending and its epilogue are stored with the session state, and the
+ * session is marked completed; the turn routes accept no further turns for
+ * it until it is restarted, which clears the state. A retry of the turn that
+ * reached the ending, by the player who played it, gets that turn's stored
+ * response again.
+ */
+export class StoryEndingService {
+  private static instance: StoryEndingService;
+  private contentRegistry = StoryContentRegistry.getInstance();
+  private sessionStateService = SessionStateService.getInstance();
+  private sessionService = new StorySessionService();
+
+  static getInstance(): StoryEndingService {
+    if (!StoryEndingService.instance) {
+      StoryEndingService.instance = new StoryEndingService();
+    }
+    return StoryEndingService.instance;
+  }
+
+  /**
+   * The ending a session has reached, or null while it is still playing
+   */
+  async getEnding(storyId: string, sessionId?: string): Promise<SessionEnding | null> {
+    return this.sessionStateService.getEnding(storyId, sessionId);
+  }
+
+  /**
+   * The ending a turn reached, if any, from the state it left the session in
+   */
+  async detect(storyId: string, facts: EndingFacts): Promise<StoryEnding | null> {
+    const pack = await this.contentRegistry.getPack(storyId);
+    if (!pack || pack.endings.length === 0) {
+      return null;
+    }
+    return findEnding(pack.endings, facts);
+  }
+
+  /**
+   * The ending a turn reached, with its epilogue; nothing is stored until
+   * conclude
+   */
+  reach(ending: StoryEnding, epilogue: string, turnNumber: number): SessionEnding {
+    return {
+      endingId: ending.id,
+      name: ending.name,
+      epilogue,
+      reachedAt: new Date().toISOString(),
+      turnNumber
+    };
+  }
+
+  /**
+   * Store the ending with the response of the turn that reached it and the
+   * player who played it, and mark the session completed; never fails the
+   * turn
+   */
+  async conclude(
+    storyId: string,
+    sessionId: string | undefined,
+    userId: string | undefined,
+    ending: SessionEnding,
+    response: any
+  ): Promise<void> {
+    console.log(`🎬 ${sessionId ? `Session ${sessionId}` : 'Anonymous session'} of ${storyId} reached ending ${ending.endingId}`);
+    if (!sessionId) {
+      return;
+    }
+
+    await this.sessionStateService.saveEnding(storyId, sessionId, ending, { userId, response });
+    try {
+      await this.sessionService.completeSession(sessionId);
+    } catch (error) {
+      console.error('❌ Failed to mark session completed:', error);
+    }
+  }
+
+  /**
+   * The stored turn that reached the ending, if any
+   */
+  async getFinalTurn(storyId: string, sessionId?: string): Promise<SessionFinalTurn | null> {
+    return this.sessionStateService.getFinalTurn(storyId, sessionId);
+  }
+}
@@ -0,0 +1,95 @@
+// Story endings: the optional "endings" array of story.json, validated when
+// a story loads, and matched against a session after every turn.
+
+import { QuestView } from '../types/sessionState';
+import { EndingCondition, StoryDmProfile, StoryEnding, StoryLocation, StoryQuest } from '../types/storyContent';
+
+const CONDITION_FIELDS = ['quest', 'location', 'flag', 'death'];
+
+// Session state an ending is checked against, as left by a turn
+export interface EndingFacts {
+  locationId: string | null;
+  quests: QuestView[];
+  flags: string[];
+  playerDied: boolean;
+}
+
+/**
+ * Validate story.json's endings against the story's locations, quests and
+ * DM profile
+ */
+export function resolveEndings(
+  raw: any,
+  content: { locations: StoryLocation[]; quests: StoryQuest[]; dmProfile: StoryDmProfile }
+): { endings: StoryEnding[]; errors: string[] } {
+  const errors: string[] = [];
+  if (raw === undefined || raw === null) {
+    return { endings: [], errors };
+  }
+  if (!Array.isArray(raw)) {
+    return { endings: [], errors: ['endings must be an array'] };
+  }
+
+  const ids = new Set<string>();
+  raw.forEach((ending: any, i: number) => {
+    const at = `endings[${i}]`;
+    if (typeof ending?.id !== 'string' || typeof ending.name !== 'string') {
+      errors.push(`${at} needs an id and a name`);
+      return;
+    }
+    if (ids.has(ending.id)) {
+      errors.push(`${at}: duplicate ending id "${ending.id}"`);
+    }
+    ids.add(ending.id);
+    if (ending.description !== undefined && typeof ending.description !== 'string') {
+      errors.push(`${at}.description must be a string`);
+    }
+
+    const conditions = Array.isArray(ending.when) ? ending.when : [ending.when];
+    if (ending.when === undefined || conditions.length === 0) {
+      errors.push(`${at}.when is required`);
+      return;
+    }
+    conditions.forEach((condition: any, j: number) => {
+      const where = Array.isArray(ending.when) ? `${at}.when[${j}]` : `${at}.when`;
+      if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+        errors.push(`${where} must be an object`);
+        return;
+      }
+      const fields = Object.keys(condition);
+      if (fields.length === 0 || fields.some(field => !CONDITION_FIELDS.includes(field))) {
+        errors.push(`${where} needs one or more of ${CONDITION_FIELDS.join(', ')} and nothing else`);
+      }
+      if (condition.quest !== undefined && !content.quests.some(quest => quest.id === condition.quest)) {
+        errors.push(`${where}: unknown quest "${condition.quest}"`);
+      }
+      if (condition.location !== undefined && !content.locations.some(location => location.id === condition.location)) {
+        errors.push(`${where}: unknown location "${condition.location}"`);
+      }
+      if (condition.flag !== undefined && typeof condition.flag !== 'string') {
+        errors.push(`${where}: flag must be a string`);
+      }
+      if (condition.death !== undefined && condition.death !== true) {
+        errors.push(`${where}: death can only be true`);
+      } else if (condition.death && !content.dmProfile.death.enabled) {
+        errors.push(`${where}: death endings need death enabled in dmProfile`);
+      }
+    });
+  });
+
+  return { endings: raw, errors };
+}
+
+/**
+ * The first ending the session has reached, if any
+ */
+export function findEnding(endings: StoryEnding[], facts: EndingFacts): StoryEnding | null {
+  const isMet = (condition: EndingCondition) =>
+    (condition.quest === undefined ||
+      facts.quests.some(quest => quest.id === condition.quest && quest.status === 'completed')) &&
+    (condition.location === undefined || facts.locationId === condition.location) &&
+    (condition.flag === undefined || facts.flags.includes(condition.flag)) &&
+    (condition.death === undefined || facts.playerDied);
+
+  return endings.find(ending => (Array.isArray(ending.when) ? ending.when : [ending.when]).some(isMet)) || null;
+}
@@ -0,0 +1,448 @@
+import {
+  DocumentExplanation,
+  DocumentField,
+  IndexedDocument,
+  SceneFilter,
+  SearchExplanation,
+  TermContribution,
+  ScoredDocument,
+  StoryDocument,
+  StoryIndex,
+  StoryRetrievalConfig
+} from '../types/retrieval';
+import { analyze } from '../utils/textAnalysis';
+import { cosineSimilarity, getEmbeddingProvider } from './embeddingProviders';
+import { StoryContentRegistry } from './storyContentRegistry';
+
+// BM25 tuning - standard defaults
+const K1 = 1.2;
+const B = 0.75;
+
+// Matches in a document's name or curated keywords count for more than matches in its body
+const FIELD_BOOSTS: Record<DocumentField, number> = {
+  name: 3.0,
+  keywords: 2.5,
+  body: 1.0
+};
+
+// Score multipliers for documents tied to the player's scene
+const SCENE_BOOST = 1.5;
+const UNVISITED_PENALTY = 0.3;
+
+const DEFAULT_RETRIEVAL_CONFIG: StoryRetrievalConfig = {
+  mode: 'keyword',
+  embeddingProvider: 'local',
+  semanticWeight: 0.5,
+  minSimilarity: 0.15
+};
+
+export class StoryIndexService {
+  private static instance: StoryIndexService;
+  private indexes: Map<string, StoryIndex> = new Map();
+  private pendingBuilds: Map<string, Promise<StoryIndex>> = new Map();
+  private contentRegistry: StoryContentRegistry;
+
+  private constructor() {
+    this.contentRegistry = StoryContentRegistry.getInstance();
+    // Rebuild lazily on the next query after a content pack is swapped
+    this.contentRegistry.onStoryReloaded(storyId => this.invalidate(storyId));
+  }
+
+  public static getInstance(): StoryIndexService {
+    if (!StoryIndexService.instance) {
+      StoryIndexService.instance = new StoryIndexService();
+    }
+    return StoryIndexService.instance;
+  }
+
+  /**
+   * Get the index for a story, rebuilding it only if its content pack changed
+   */
+  async getIndex(storyId: string, loadDocuments: () => Promise<StoryDocument[]>): Promise<StoryIndex> {
+    const pack = await this.contentRegistry.getPack(storyId);
+    const signature = pack ? `v${pack.version}` : 'missing';
+    const cached = this.indexes.get(storyId);
+    if (cached && cached.signature === signature) {
+      return cached;
+    }
+
+    // Coalesce concurrent rebuilds of the same pack version; a build started
+    // before a reload is never handed to callers that see the new version
+    const buildKey = `${storyId}:${signature}`;
+    const pending = this.pendingBuilds.get(buildKey);
+    if (pending) {
+      return pending;
+    }
+
+    const build = (async () => {
+      try {
+        const documents = await loadDocuments();
+        const config = this.resolveRetrievalConfig(storyId, pack?.story?.retrieval);
+        const index = this.buildIndex(storyId, signature, documents, config);
+        // Don't let a build that finished after a reload replace the newer index
+        const current = await this.contentRegistry.getPack(storyId);
+        if ((current ? `v${current.version}` : 'missing') === signature) {
+          this.indexes.set(storyId, index);
+        }
+        console.log(`🗂️ Built ${config.mode} search index for ${storyId} ${signature} (${documents.length} documents)`);
+        return index;
+      } finally {
+        this.pendingBuilds.delete(buildKey);
+      }
+    })();
+
+    this.pendingBuilds.set(buildKey, build);
+    return build;
+  }
+
+  /**
+   * Rank the documents of an index against a query using the story's
+   * retrieval mode: BM25F keywords, embedding similarity, or a fusion of both.
+   * An optional scene filter boosts the current room and its cast and keeps
+   * rooms the player hasn't reached yet out of the way.
+   */
+  async search(
+    index: StoryIndex,
+    query: string,
+    maxResults: number = 5,
+    scene?: SceneFilter
+  ): Promise<ScoredDocument[]> {
+    const { results } = await this.explain(index, query, maxResults, scene);
+    return this.toScoredDocuments(index, results);
+  }
+
+  /**
+   * Map explained results back to the documents they describe
+   */
+  toScoredDocuments(index: StoryIndex, results: DocumentExplanation[]): ScoredDocument[] {
+    return results.map(result => {
+      const indexed = index.documents.find(candidate =>
+        candidate.document.metadata.id === result.id && candidate.document.metadata.type === result.type
+      )!;
+      return {
+        content: indexed.document.content,
+        relevanceScore: result.finalScore,
+        metadata: indexed.document.metadata
+      };
+    });
+  }
+
+  /**
+   * Same ranking as search(), with a per-document breakdown of how each score
+   * was reached and why documents were left out
+   */
+  async explain(
+    index: StoryIndex,
+    query: string,
+    maxResults: number = 5,
+    scene?: SceneFilter
+  ): Promise<SearchExplanation> {
+    const { mode, semanticWeight, minSimilarity } = index.config;
+    const queryTerms = [...new Set(analyze(query))];
+
+    const keywordBreakdowns = index.documents.map(indexed => this.scoreDocument(index, indexed, queryTerms));
+
+    let vectorScores: number[] | null = null;
+    if (mode !== 'keyword' && index.documents.length > 0) {
+      try {
+        vectorScores = await this.vectorScores(index, query);
+      } catch (error) {
+        console.error(`❌ Semantic retrieval failed for ${index.storyId}, using keyword scores:`, error);
+      }
+    }
+
+    const useKeywords = mode !== 'semantic' || !vectorScores;
+    const maxKeyword = Math.max(0, ...keywordBreakdowns.map(breakdown => breakdown.score));
+    const resolvedScene = this.resolveScene(index, scene);
+
+    const explanations: DocumentExplanation[] = index.documents.map((indexed, i) => {
+      const { metadata } = indexed.document;
+      const keyword = keywordBreakdowns[i];
+      const similarity = vectorScores ? vectorScores[i] : undefined;
+      const vectorScore = similarity !== undefined && similarity >= minSimilarity ? similarity : 0;
+
+      let combinedScore: number;
+      if (vectorScores && useKeywords) {
+        // Normalize keyword scores to [0, 1] so they are comparable with cosine similarity
+        const normalizedKeyword = maxKeyword > 0 ? keyword.score / maxKeyword : 0;
+        combinedScore = semanticWeight * vectorScore + (1 - semanticWeight) * normalizedKeyword;
+      } else if (vectorScores) {
+        combinedScore = vectorScore;
+      } else {
+        combinedScore = keyword.score;
+      }
+
+      const weight = indexed.document.weight ?? 1;
+      const { multiplier, reason } = this.sceneMultiplier(indexed, resolvedScene);
+      const finalScore = combinedScore * weight * multiplier;
+
+      let exclusionReason: DocumentExplanation['exclusionReason'];
+      if (combinedScore <= 0) {
+        exclusionReason = similarity !== undefined && similarity > 0 && keyword.score === 0
+          ? 'below_similarity_threshold'
+          : 'no_match';
+      } else if (multiplier === 0) {
+        exclusionReason = 'scene_filter';
+      }
+
+      return {
+        id: metadata.id,
+        type: metadata.type,
+        name: metadata.name || metadata.title || metadata.id,
+        category: metadata.category,
+        keywordScore: keyword.score,
+        termContributions: keyword.terms,
+        vectorSimilarity: similarity,
+        combinedScore,
+        weight,
+        sceneMultiplier: multiplier,
+        sceneReason: reason,
+        finalScore,
+        included: false,
+        exclusionReason
+      };
+    });
+
+    const ranked = explanations
+      .filter(explanation => !explanation.exclusionReason)
+      .sort((a, b) => b.finalScore - a.finalScore);
+
+    ranked.forEach((explanation, rank) => {
+      if (rank < maxResults) {
+        explanation.included = true;
+      } else {
+        explanation.exclusionReason = 'rank_cutoff';
+      }
+    });
+
+    return {
+      storyId: index.storyId,
+      query,
+      queryTerms,
+      config: index.config,
+      scene: resolvedScene
+        ? {
+          locationId: resolvedScene.locationId,
+          characterIds: resolvedScene.characterIds,
+          visitedLocationIds: [...resolvedScene.visited],
+          excludeUnvisited: resolvedScene.excludeUnvisited,
+          applied: resolvedScene.applied
+        }
+        : undefined,
+      results: ranked.filter(explanation => explanation.included),
+      excluded: explanations
+        .filter(explanation => !explanation.included)
+        .sort((a, b) => b.finalScore - a.finalScore)
+    };
+  }
+
+  /**
+   * Drop a cached index so the next query rebuilds it
+   */
+  invalidate(storyId: string): void {
+    this.indexes.delete(storyId);
+  }
+
+  /**
+   * Work out which characters and locations a scene filter covers. The
+   * filter is skipped for locations the story doesn't define.
+   */
+  private resolveScene(index: StoryIndex, scene?: SceneFilter): {
+    locationId: string;
+    characterIds: string[];
+    visited: Set<string>;
+    excludeUnvisited: boolean;
+    applied: boolean;
+  } | undefined {
+    if (!scene) {
+      return undefined;
+    }
+
+    const currentLocation = index.documents.find(indexed =>
+      indexed.document.metadata.type === 'location' && indexed.document.metadata.id === scene.locationId
+    );
+    if (!currentLocation) {
+      console.warn(`⚠️ Unknown scene location "${scene.locationId}" in ${index.storyId}, skipping scene filter`);
+    }
+
+    let characterIds = scene.characterIds;
+    if (!characterIds) {
+      const inhabitants: string[] = (currentLocation?.document.metadata.inhabitants || [])
+        .map((name: string) => name.toLowerCase());
+      characterIds = index.documents
+        .filter(indexed =>
+          indexed.document.metadata.type === 'character' &&
+          inhabitants.includes(String(indexed.document.metadata.name).toLowerCase())
+        )
+        .map(indexed => indexed.document.metadata.id);
+    }
+
+    return {
+      locationId: scene.locationId,
+      characterIds,
+      visited: new Set([scene.locationId, ...(scene.visitedLocationIds || [])]),
+      excludeUnvisited: scene.excludeUnvisited || false,
+      applied: !!currentLocation
+    };
+  }
+
+  /**
+   * Score multiplier for a document under a scene filter. Documents with no
+   * location tie (general lore, story beats) are left untouched; a multiplier
+   * of 0 excludes the document.
+   */
+  private sceneMultiplier(
+    indexed: IndexedDocument,
+    scene?: ReturnType<StoryIndexService['resolveScene']>
+  ): { multiplier: number; reason?: string } {
+    if (!scene || !scene.applied) {
+      return { multiplier: 1 };
+    }
+
+    const { type, id, locationId } = indexed.document.metadata;
+    if (locationId === scene.locationId) {
+      return { multiplier: SCENE_BOOST, reason: `in current location ${scene.locationId}` };
+    }
+    if (type === 'character' && scene.characterIds.includes(id)) {
+      return { multiplier: SCENE_BOOST, reason: 'character present in scene' };
+    }
+    if (locationId && !scene.visited.has(locationId)) {
+      return scene.excludeUnvisited
+        ? { multiplier: 0, reason: `tied to unvisited location ${locationId}` }
+        : { multiplier: UNVISITED_PENALTY, reason: `tied to unvisited location ${locationId}` };
+    }
+    return { multiplier: 1 };
+  }
+
+  private async vectorScores(index: StoryIndex, query: string): Promise<number[]> {
+    const provider = getEmbeddingProvider(index.config.embeddingProvider);
+
+    let documentVectors = index.vectors.get(provider.id);
+    if (!documentVectors) {
+      documentVectors = provider.embed(index.documents.map(indexed => indexed.document.content));
+      index.vectors.set(provider.id, documentVectors);
+      // Don't cache a failed embedding run
+      documentVectors.catch(() => index.vectors.delete(provider.id));
+    }
+
+    const [queryVector] = await provider.embed([query]);
+    const vectors = await documentVectors;
+    return vectors.map(vector => cosineSimilarity(queryVector, vector));
+  }
+
+  private buildIndex(
+    storyId: string,
+    signature: string,
+    documents: StoryDocument[],
+    config: StoryRetrievalConfig
+  ): StoryIndex {
+    const documentFrequency = new Map<string, number>();
+    const totalFieldLength: Partial<Record<DocumentField, number>> = {};
+
+    const indexedDocuments: IndexedDocument[] = documents.map(document => {
+      const termFrequencies: IndexedDocument['termFrequencies'] = {};
+      const fieldLengths: IndexedDocument['fieldLengths'] = {};
+      const seenTerms = new Set<string>();
+
+      for (const field of Object.keys(FIELD_BOOSTS) as DocumentField[]) {
+        const terms = analyze(document.fields[field] || '');
+        const frequencies = new Map<string, number>();
+        for (const term of terms) {
+          frequencies.set(term, (frequencies.get(term) || 0) + 1);
+          seenTerms.add(term);
+        }
+        termFrequencies[field] = frequencies;
+        fieldLengths[field] = terms.length;
+        totalFieldLength[field] = (totalFieldLength[field] || 0) + terms.length;
+      }
+
+      for (const term of seenTerms) {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      }
+
+      return { document, termFrequencies, fieldLengths };
+    });
+
+    const averageFieldLength: StoryIndex['averageFieldLength'] = {};
+    for (const field of Object.keys(FIELD_BOOSTS) as DocumentField[]) {
+      averageFieldLength[field] = indexedDocuments.length > 0
+        ? (totalFieldLength[field] || 0) / indexedDocuments.length
+        : 0;
+    }
+
+    return {
+      storyId,
+      signature,
+      documents: indexedDocuments,
+      documentFrequency,
+      averageFieldLength,
+      config,
+      vectors: new Map(),
+      builtAt: new Date()
+    };
+  }
+
+  private scoreDocument(
+    index: StoryIndex,
+    indexed: IndexedDocument,
+    queryTerms: string[]
+  ): { score: number; terms: TermContribution[] } {
+    const totalDocuments = index.documents.length;
+    const terms: TermContribution[] = [];
+    let score = 0;
+
+    for (const term of queryTerms) {
+      const df = index.documentFrequency.get(term) || 0;
+      if (df === 0) continue;
+
+      // Length-normalized, boosted term frequency summed across fields (BM25F)
+      const fieldWeights: Partial<Record<DocumentField, number>> = {};
+      let weightedTf = 0;
+      for (const field of Object.keys(FIELD_BOOSTS) as DocumentField[]) {
+        const tf = indexed.termFrequencies[field]?.get(term) || 0;
+        if (tf === 0) continue;
+        const avgLength = index.averageFieldLength[field] || 1;
+        const length = indexed.fieldLengths[field] || 0;
+        fieldWeights[field] = (FIELD_BOOSTS[field] * tf) / (1 - B + B * (length / avgLength));
+        weightedTf += fieldWeights[field]!;
+      }
+      if (weightedTf === 0) continue;
+
+      const idf = Math.log(1 + (totalDocuments - df + 0.5) / (df + 0.5));
+      const termScore = idf * (weightedTf * (K1 + 1)) / (weightedTf + K1);
+      score += termScore;
+
+      const fields: TermContribution['fields'] = {};
+      for (const [field, fieldWeight] of Object.entries(fieldWeights) as Array<[DocumentField, number]>) {
+        fields[field] = termScore * (fieldWeight / weightedTf);
+      }
+      terms.push({ term, idf, score: termScore, fields });
+    }
+
+    return { score, terms };
+  }
+
+  /**
+   * Merge the optional "retrieval" block from story.json over the defaults
+   */
+  private resolveRetrievalConfig(storyId: string, storyConfig?: Partial<StoryRetrievalConfig>): StoryRetrievalConfig {
+    const config = { ...DEFAULT_RETRIEVAL_CONFIG };
+    if (process.env.RETRIEVAL_MODE) {
+      config.mode = process.env.RETRIEVAL_MODE as StoryRetrievalConfig['mode'];
+    }
+
+    Object.assign(config, storyConfig || {});
+
+    // Forced override, e.g. to keep offline tooling off the network
+    if (process.env.RETRIEVAL_EMBEDDING_PROVIDER) {
+      config.embeddingProvider = process.env.RETRIEVAL_EMBEDDING_PROVIDER;
+    }
+
+    if (!['keyword', 'semantic', 'hybrid'].includes(config.mode)) {
+      console.warn(`⚠️ Unknown retrieval mode "${config.mode}" for ${storyId}, using keyword`);
+      config.mode = 'keyword';
+    }
+
+    return config;
+  }
+}
@@ -1,187 +1,80 @@
-import path from 'path';
-import fs from 'fs/promises';
+import * as crypto from 'crypto';
 import { InventoryService } from './inventoryService';
 import { WorldStateService } from './worldStateService';
+import { StoryIndexService } from './storyIndexService';
+import { StoryContentRegistry } from './storyContentRegistry';
+import { DEFAULT_PROMPT_TOKEN_LIMIT, PromptBuilder } from './promptBuilder';
+import { InjectionAssessment, PromptBudgetReport } from '../types/prompt';
+import { SceneFilter, ScoredDocument, SearchExplanation, StoryDocument } from '../types/retrieval';
+import { LocationExit, QuestView } from '../types/sessionState';
+import { LoreImportance, StatValue, StoryDmProfile } from '../types/storyContent';
+import { assessInjection, delimitPlayerText, escapePlayerText, PLAYER_INPUT_TAG } from '../utils/promptSafety';
+import { PromptTemplateService } from './promptTemplateService';
+import { ExperimentService } from './experimentService';
+import { ModerationService } from './moderationService';
+import { contentRatingTemplateVariables, dmProfileTemplateVariables } from './dmProfile';
+import { ContentRating } from '../types/moderation';
 // Removed complex story progression services for sandbox approach
 
-const UNIFIED_SYSTEM_PROMPT = `You are an expert DUNGEON MASTER running a solo adventure. Your primary role is to:
-1. ACKNOWLEDGE what the player does
-2. DESCRIBE the immediate results
-3. ADVANCE the story forward
-4. MAINTAIN dramatic tension
-
-CRITICAL DUNGEON MASTER RULES:
-- ALWAYS start your response by describing the player's action: "You [their action]..."
-- Show IMMEDIATE consequences of their action before anything else
-- Keep the story MOVING FORWARD - never let it stagnate
-- Make player choices MATTER - show how their actions change the world
-- Create DRAMATIC MOMENTS that demand player decisions
-
-PACING & PROGRESSION:
-- If nothing significant happened for 2+ turns, introduce a complication
-- When players explore aimlessly, have something find THEM
-- Use environmental changes to force movement (doors closing, water rising, enemies approaching)
-- Every 3-4 peaceful scenes, add tension or conflict
-- Track "story momentum" - if it drops, inject drama
-
-RESPONSE STRUCTURE:
-1. "You [describe their exact action in detail]..."
-2. Immediate sensory result (what changes, what they discover)
-3. World's reaction (NPCs respond, environment shifts, consequences unfold)
-4. Story progression (new challenge, revelation, or opportunity)
-5. Generate contextually appropriate choices that push the story forward
-
-CHARACTER & WORLD CONSISTENCY:
-- Use provided context for accuracy
-- Remember player's previous actions and choices
-- Show how the world changes based on player decisions
-- NPCs should have goals and react believably
-
-CHOICE GENERATION RULES:
-- Generate 2-5 choices based on situation (not always 4!)
-- Choices should offer different narrative paths, not just different styles
-- Include at least one choice that significantly advances the plot
-- Add consequence hints: "Draw your sword (the guards will likely attack)"
-- In tense moments, add time pressure: "The door is closing..."
-
-DUNGEON MASTER INTERVENTIONS:
-- If player is stuck: Provide environmental clues or NPC hints
-- If story stalls: Introduce unexpected events
-- If tension drops: Add time limits, pursuing enemies, or environmental dangers
-- If player repeats actions: Show escalating consequences
-
-DEATH & CONSEQUENCES:
-- Player actions can lead to death through reckless behavior
-- Death should be dramatic and educational - show why the action was fatal
-- Always provide a clear restart option after death
-- Resurrection/revival should acknowledge lessons learned from failure
-- Use death as a teaching tool, not just punishment
-
-INVENTORY & WORLD STATE INTEGRATION:
-- Track item usage: When players use items, add them to "items_lost" with reason "used" or "consumed"
-- Track item discovery: When players find NEW items, add them to "items_gained" with descriptive source
-- Handle pickup from ground: When picking up existing items, use source "picked up", "from ground", "from floor"
-- Handle item drops: When items are dropped/discarded, use reason "dropped", "placed on ground", "set down"
-- Respect inventory limitations: Check if player has required items for actions
-- World state awareness: Reference items on the ground when describing locations
-- Item interactions: Allow creative use of available items in player inventory
-- Logical sources: Use "found in chest", "discovered in ruins", "received from NPC", "crafted", etc. for new items
-- Smart pickup language: Use phrases like "gathered from the floor", "picked up from the ground" for existing items
-
-CONTENT GUIDELINES:
-- Family-friendly adventure content
-- Focus on exploration, mystery, and heroic challenges
-- Redirect inappropriate requests narratively
-
-JSON RESPONSE FORMAT:
-{
-  "narrative": "Your story continuation focusing on player action acknowledgment and consequences",
-  "choices": [
-    {
-      "id": "choice_1",
-      "text": "Contextually appropriate action",
-      "hint": "Optional consequence hint"
-    }
-    // Generate 2-5 choices based on situation
-  ],
-  "context": {
-    "location": "current location",
-    "tension": "low/medium/high/critical",
-    "momentum": "stalled/slow/steady/fast"
-  },
-  "inventory_changes": {
-    "items_gained": [{"id": "item_id", "name": "name", "quantity": 1, "source": "how obtained"}],
-    "items_lost": [{"id": "item_id", "name": "name", "quantity": 1, "reason": "how lost"}]
+// Rarer lore is more central to the story, so it ranks higher on equal matches
+const LORE_IMPORTANCE_WEIGHTS: Record<LoreImportance, number> = {
+  common: 1.0,
+  uncommon: 1.1,
+  rare: 1.2,
+  epic: 1.25,
+  legendary: 1.3
+};
+
+// Render nested stat blocks ("combat_stats", "mystical_abilities") as readable text
+function formatStatValue(value: StatValue): string {
+  if (Array.isArray(value)) {
+    return value.join(', ');
   }
-}`;
-
-// Helper function to provide context for action types
-function getActionTypeContext(actionType: string): string {
-  switch (actionType.toLowerCase()) {
-    case 'dialogue':
-      return `PLAYER ACTION: Speaking/Communicating
-MANDATORY: Start with "You say..." or "You call out..." or "You ask..."
-- Quote their exact words in dialogue
-- Show NPC reactions immediately (facial expressions, body language)
-- Create back-and-forth dialogue exchanges
-- Advance plot through conversation revelations
-- End with a moment requiring player response`;
-
-    case 'decision':
-      return `PLAYER ACTION: Taking Decisive Action
-MANDATORY: Start with "You [their exact action]..."
-- Describe their movement/action in vivid detail
-- Show immediate environmental changes
-- Create consequences that ripple outward
-- Introduce new challenges from their boldness
-- Generate choices that build on this momentum`;
-
-    case 'exploration':
-      return `PLAYER ACTION: Investigating/Examining
-MANDATORY: Start with "You examine..." or "You search..." or "You study..."
-- Describe their investigation method (touch, sight, tools)
-- Reveal discoveries progressively (obvious → hidden → significant)
-- Connect findings to larger mysteries
-- Create "aha!" moments that advance understanding
-- Lead to new questions or paths forward`;
-
-    case 'combat':
-      return `PLAYER ACTION: Combat/Conflict
-MANDATORY: Start with "You swing..." or "You dodge..." or "You cast..."
-- Describe the physicality of combat vividly
-- Show immediate results (hit/miss/block)
-- Enemy reactions and counterattacks
-- Environmental combat factors
-- Keep combat moving toward resolution`;
-
-    case 'worldbuilding':
-      return `NARRATIVE MOMENT: Environmental Storytelling
-- Set the scene with rich sensory details
-- Build atmosphere and tension
-- Introduce new story elements naturally
-- Even here, acknowledge any player action first
-- Create moments that demand player attention`;
-
-    case 'continue':
-      return `STORY PROGRESSION: Time Passes
-MANDATORY: Show change and progression
-- Start with temporal transition: "Moments later..." or "As time passes..."
-- Something NEW must happen (environment shifts, NPCs act, situations evolve)
-- Introduce complications or opportunities
-- Never just repeat the previous scene
-- Force player engagement with new developments`;
-
-    default:
-      return 'PLAYER ACTION: Acknowledge their specific action and show its consequences.';
+  if (value && typeof value === 'object') {
+    return Object.entries(value)
+      .map(([key, nested]) => `${key.replace(/_/g, ' ')}: ${formatStatValue(nested)}`)
+      .join('; ');
   }
+  return String(value);
 }
 
 export class StoryPromptService {
   // Simplified for sandbox approach - removed complex state tracking
   private inventoryService: InventoryService;
   private worldStateService: WorldStateService;
+  private storyIndexService: StoryIndexService;
+  private contentRegistry: StoryContentRegistry;
+  private promptTemplates: PromptTemplateService;
+  private experimentService: ExperimentService;
+  private moderationService: ModerationService;
   
   constructor() {
     // Simplified constructor
     this.inventoryService = InventoryService.getInstance();
     this.worldStateService = new WorldStateService();
+    this.storyIndexService = StoryIndexService.getInstance();
+    this.contentRegistry = StoryContentRegistry.getInstance();
+    this.promptTemplates = PromptTemplateService.getInstance();
+    this.experimentService = ExperimentService.getInstance();
+    this.moderationService = ModerationService.getInstance();
   }
 
   /**
    * Load and combine story content for a specific story into documents for RAG
    */
-  async loadStoryContent(storyId: string): Promise<Array<{ content: string; metadata: any }>> {
-    const storyDataDir = path.join(__dirname, '../../data/stories', storyId);
-    const documents: Array<{ content: string; metadata: any }> = [];
+  async loadStoryContent(storyId: string): Promise<StoryDocument[]> {
+    const documents: StoryDocument[] = [];
 
     try {
-      // Load characters
-      const charactersPath = path.join(storyDataDir, 'characters.json');
-      const charactersData = JSON.parse(await fs.readFile(charactersPath, 'utf-8'));
+      const pack = await this.contentRegistry.getPack(storyId);
+      if (!pack) {
+        console.error(`❌ No story content pack loaded for ${storyId}`);
+        return [];
+      }
 
-      for (const character of charactersData.characters) {
-        documents.push({
-          content: `Character: ${character.name}
+      // Characters
+      for (const character of pack.characters) {
+        let content = `Character: ${character.name}
 Type: ${character.type}
 Description: ${character.description}
 Personality: ${character.personality}
@@ -192,21 +85,37 @@ Story Role: ${character.story_role}
 ${character.backstory ? `Backstory: ${character.backstory}` : ''}
 Relationships: ${Object.entries(character.relationships || {})
               .map(([key, value]) => `${key}: ${value}`)
-              .join('; ')}`,
+              .join('; ')}`;
+
+        if (character.combat_stats) {
+          content += `\nCombat: ${formatStatValue(character.combat_stats)}`;
+        }
+
+        if (character.conversation_triggers) {
+          content += `\nConversation Triggers: ${formatStatValue(character.conversation_triggers)}`;
+        }
+
+        if (character.mystical_abilities) {
+          content += `\nMystical Abilities: ${formatStatValue(character.mystical_abilities)}`;
+        }
+
+        documents.push({
+          content,
           metadata: {
             type: 'character',
             id: character.id,
             name: character.name,
-            category: 'characters'
+            category: 'characters',
+            location: character.location
+          },
+          fields: {
+            name: character.name
           }
         });
       }
 
-      // Load locations
-      const locationsPath = path.join(storyDataDir, 'locations.json');
-      const locationsData = JSON.parse(await fs.readFile(locationsPath, 'utf-8'));
-
-      for (const location of locationsData.locations) {
+      // Locations
+      for (const location of pack.locations) {
         documents.push({
           content: `Location: ${location.name}
 Type: ${location.type}
@@ -216,76 +125,98 @@ Notable Features: ${location.notable_features.join('; ')}
 Inhabitants: ${location.inhabitants.join(', ')}
 Danger Level: ${location.dangers}
 Story Significance: ${location.story_significance}
-Connections: ${Object.entries(location.connections || {})
-              .map(([key, value]) => `${key}: ${value}`)
+Connections: ${(location.connections || [])
+              .map(connection => `${connection.to} (${connection.state})${connection.description ? `: ${connection.description}` : ''}`)
               .join('; ')}`,
           metadata: {
             type: 'location',
             id: location.id,
             name: location.name,
-            category: 'locations'
+            category: 'locations',
+            locationId: location.id,
+            inhabitants: location.inhabitants
+          },
+          fields: {
+            name: location.name
           }
         });
       }
 
-      // Load story beats (optional - not all stories may have this)
-      try {
-        const storyBeatsPath = path.join(storyDataDir, 'story_beats.json');
-        const storyBeatsData = JSON.parse(await fs.readFile(storyBeatsPath, 'utf-8'));
-
-        for (const beat of storyBeatsData.story_beats) {
-          let content = `Story Beat: ${beat.name}
+      // Story beats (optional - not all stories have them)
+      for (const beat of pack.storyBeats) {
+        let content = `Story Beat: ${beat.name}
 Type: ${beat.type}
 Description: ${beat.description}
 Story Significance: ${beat.story_significance}`;
 
-          if (beat.choices) {
-            content += `\nChoices Available: ${beat.choices
-              .map((choice: any) => `${choice.option} -> ${choice.consequences}`)
-              .join('; ')}`;
-          }
-
-          if (beat.key_information_revealed) {
-            content += `\nKey Information: ${beat.key_information_revealed.join('; ')}`;
-          }
+        if (beat.choices) {
+          content += `\nChoices Available: ${beat.choices
+            .map(choice => `${choice.option} -> ${choice.consequences}`)
+            .join('; ')}`;
+        }
 
-          documents.push({
-            content,
-            metadata: {
-              type: 'story_beat',
-              id: beat.id,
-              name: beat.name,
-              category: 'story_beats'
-            }
-          });
+        if (beat.key_information_revealed) {
+          content += `\nKey Information: ${beat.key_information_revealed.join('; ')}`;
         }
-      } catch (error) {
-        console.log(`ℹ️ No story beats file found for ${storyId} (optional)`);
-      }
 
-      // Load lore (optional - not all stories may have this)
-      try {
-        const lorePath = path.join(storyDataDir, 'lore.json');
-        const loreData = JSON.parse(await fs.readFile(lorePath, 'utf-8'));
+        documents.push({
+          content,
+          metadata: {
+            type: 'story_beat',
+            id: beat.id,
+            name: beat.name,
+            category: 'story_beats'
+          },
+          fields: {
+            name: beat.name
+          }
+        });
+      }
 
-        for (const loreEntry of loreData.lore) {
-          documents.push({
-            content: `Lore: ${loreEntry.title}
+      // Lore (optional - not all stories have it)
+      for (const loreEntry of pack.lore) {
+        const keywords = loreEntry.keywords || [];
+        documents.push({
+          content: `Lore: ${loreEntry.topic}
 Category: ${loreEntry.category}
-Content: ${loreEntry.content}`,
-            metadata: {
-              type: 'lore',
-              id: loreEntry.id,
-              title: loreEntry.title,
-              category: loreEntry.category
-            }
-          });
+Importance: ${loreEntry.importance}
+Description: ${loreEntry.description}
+Keywords: ${keywords.join(', ')}`,
+          metadata: {
+            type: 'lore',
+            id: loreEntry.id,
+            title: loreEntry.topic,
+            category: loreEntry.category,
+            importance: loreEntry.importance,
+            location: loreEntry.location
+          },
+          fields: {
+            name: loreEntry.topic,
+            keywords: keywords.join(' ')
+          },
+          weight: LORE_IMPORTANCE_WEIGHTS[loreEntry.importance] ?? 1
+        });
+      }
+
+      // Tie characters and lore to the location they belong to; content files
+      // may refer to locations by id or by display name
+      const locationIds = new Map<string, string>();
+      for (const location of pack.locations) {
+        locationIds.set(location.id.toLowerCase(), location.id);
+        locationIds.set(location.name.toLowerCase(), location.id);
+      }
+      for (const document of documents) {
+        if (document.metadata.type !== 'location' && document.metadata.location) {
+          document.metadata.locationId = locationIds.get(document.metadata.location.toLowerCase());
         }
-      } catch (error) {
-        console.log(`ℹ️ No lore file found for ${storyId} (optional)`);
       }
 
-      console.log(`✅ Loaded ${documents.length} story documents for RAG from ${storyId}`);
+      // Everything in the document is searchable as body text
+      for (const document of documents) {
+        document.fields.body = document.content;
+      }
+
+      console.log(`✅ Built ${documents.length} story documents for RAG from ${storyId} v${pack.version}`);
       return documents;
 
     } catch (error) {
@@ -295,38 +226,18 @@ Content: ${loreEntry.content}`,
   }
 
   /**
-   * Search story content for relevant context
+   * Search story content for relevant context using the cached story index,
+   * optionally focused on the player's current scene
    */
-  async searchStoryContext(storyId: string, query: string, maxResults: number = 5): Promise<Array<{
-    content: string;
-    relevanceScore: number;
-    metadata: any;
-  }>> {
+  async searchStoryContext(
+    storyId: string,
+    query: string,
+    maxResults: number = 5,
+    scene?: SceneFilter
+  ): Promise<ScoredDocument[]> {
     try {
-      const documents = await this.loadStoryContent(storyId);
-
-      const queryLower = query.toLowerCase();
-      const scoredResults = documents
-        .map(doc => {
-          const contentLower = doc.content.toLowerCase();
-          let score = 0;
-
-          // Simple scoring based on keyword matches
-          const queryWords = queryLower.split(' ').filter(word => word.length > 2);
-          for (const word of queryWords) {
-            const matches = (contentLower.match(new RegExp(word, 'g')) || []).length;
-            score += matches;
-          }
-
-          return {
-            content: doc.content,
-            relevanceScore: score,
-            metadata: doc.metadata
-          };
-        })
-        .filter(result => result.relevanceScore > 0)
-        .sort((a, b) => b.relevanceScore - a.relevanceScore)
-        .slice(0, maxResults);
+      const index = await this.storyIndexService.getIndex(storyId, () => this.loadStoryContent(storyId));
+      const scoredResults = await this.storyIndexService.search(index, query, maxResults, scene);
 
       console.log(`🔍 Found ${scoredResults.length} relevant story documents for query: "${query}" in ${storyId}`);
       return scoredResults;
@@ -338,7 +249,36 @@ Content: ${loreEntry.content}`,
   }
 
   /**
-   * Generate enhanced prompt with story context
+   * Explain how story context is ranked for a query, and preview the context
+   * block generateEnhancedPrompt would inject for it
+   */
+  async explainStoryContext(
+    storyId: string,
+    query: string,
+    maxResults: number = 5,
+    scene?: SceneFilter,
+    actionType?: string,
+    promptVersion: string = this.experimentService.getConfig().defaultVersion
+  ): Promise<{
+    explanation: SearchExplanation;
+    contextString: string;
+    actionTypeGuidance: string;
+  }> {
+    const index = await this.storyIndexService.getIndex(storyId, () => this.loadStoryContent(storyId));
+    const explanation = await this.storyIndexService.explain(index, query, maxResults, scene);
+    const results = this.storyIndexService.toScoredDocuments(index, explanation.results);
+
+    return {
+      explanation,
+      contextString: this.buildContextString(results),
+      actionTypeGuidance: actionType ? this.promptTemplates.renderActionGuidance(promptVersion, actionType) : ''
+    };
+  }
+
+  /**
+   * Generate enhanced prompt with story context, from the given version of
+   * the prompt templates (see PromptTemplateService). The system instruction
+   * follows the story's DM profile; exits are those of the scene's location.
    */
   async generateEnhancedPrompt(
     storyId: string,
@@ -347,7 +287,10 @@ Content: ${loreEntry.content}`,
     actionType?: string,
     userId?: string,
     sessionId?: string,
-    locationId?: string
+    scene?: SceneFilter,
+    promptVersion: string = this.experimentService.getConfig().defaultVersion,
+    exits: LocationExit[] | null = null,
+    quests: QuestView[] = []
   ): Promise<{
     enhancedPrompt: string;
     contextUsed: Array<{ content: string; metadata: any }>;
@@ -357,19 +300,40 @@ Content: ${loreEntry.content}`,
       availableItems: string[];
       suggestions: string[];
     };
+    promptBudget: PromptBudgetReport;
+    // Hash of the prompt version and the prompt without inventory/world
+    // state, stable across retries
+    promptFingerprint: string;
+    // DM rules, sent as the model's system instruction rather than in the prompt
+    systemInstruction: string;
+    injection: InjectionAssessment;
+    dmProfile: StoryDmProfile;
+    contentRating: ContentRating;
   }> {
-    const storyContext = await this.searchStoryContext(storyId, userQuery, 5);
-    // Removed state tracker for sandbox approach
+    const dmProfile = await this.contentRegistry.getDmProfile(storyId);
+    const contentRating = await this.moderationService.getRating(storyId);
+    const systemInstruction = this.promptTemplates.renderSystem(promptVersion, {
+      playerInputTag: PLAYER_INPUT_TAG,
+      ...contentRatingTemplateVariables(contentRating),
+      ...dmProfileTemplateVariables(dmProfile)
+    });
 
-    const contextString = storyContext
-      .map(ctx => `[${ctx.metadata.category}] ${ctx.content}`)
-      .join('\n\n');
+    const storyContext = await this.searchStoryContext(storyId, userQuery, 5, scene);
+    const locationId = scene?.locationId;
+    const locationContext = await this.buildLocationContext(storyId, locationId, exits);
+    const objectivesContext = this.buildObjectivesContext(quests);
+    // Removed state tracker for sandbox approach
 
     // Enhanced conversation history with sliding window
     const conversationString = this.buildOptimalConversationHistory(conversationHistory);
 
     // Create action type context
-    const actionTypeContext = actionType ? getActionTypeContext(actionType) : '';
+    const actionTypeContext = actionType ? this.promptTemplates.renderActionGuidance(promptVersion, actionType) : '';
+
+    const injection = assessInjection(userQuery);
+    if (injection.suspicious) {
+      console.warn(`🚨 Possible prompt injection in player message (${injection.signals.join(', ')}):`, userQuery.slice(0, 200));
+    }
 
     // Get inventory context and validation
     let inventoryContext = '';
@@ -382,13 +346,6 @@ Content: ${loreEntry.content}`,
     
     // Get available item templates for this story
     const availableItems = this.inventoryService.getStoryItems(storyId);
-    let availableItemsContext = '';
-    if (availableItems.length > 0) {
-      availableItemsContext = `\n\nAVAILABLE STORY ITEMS:\n`;
-      availableItems.forEach(item => {
-        availableItemsContext += `- ${item.id}: ${item.name} (${item.type}) - ${item.description}\n`;
-      });
-    }
 
     if (userId && sessionId) {
       console.log('🎒 Loading inventory context for user:', userId, 'session:', sessionId);
@@ -403,7 +360,7 @@ Content: ${loreEntry.content}`,
         
         // Get inventory summary for context
         const inventorySummary = await this.inventoryService.getInventorySummary(userId, sessionId);
-        inventoryContext = `\n\nPLAYER INVENTORY:\n${inventorySummary}`;
+        inventoryContext = `PLAYER INVENTORY:\n${inventorySummary}`;
         console.log('✅ Inventory summary loaded:', inventorySummary);
 
         // Validate inventory for action-related items
@@ -421,7 +378,7 @@ Content: ${loreEntry.content}`,
         }
       } catch (error) {
         console.error('❌ Error getting inventory context:', error);
-        inventoryContext = '\n\nINVENTORY: Unable to load inventory';
+        inventoryContext = 'INVENTORY: Unable to load inventory';
       }
     } else {
       console.log('⚠️ No userId or sessionId provided - skipping inventory validation');
@@ -433,41 +390,181 @@ Content: ${loreEntry.content}`,
       try {
         console.log('🌍 Loading world state for location:', locationId, 'story:', storyId);
         const worldStateSummary = await this.worldStateService.getLocationItemsSummary(storyId, locationId);
-        worldStateContext = `\n\n${worldStateSummary}`;
+        worldStateContext = worldStateSummary;
         console.log('✅ World state summary loaded:', worldStateSummary);
       } catch (error) {
         console.error('❌ Error getting world state context:', error);
-        worldStateContext = '\n\nWORLD ITEMS: Unable to load world state';
+        worldStateContext = 'WORLD ITEMS: Unable to load world state';
       }
     } else {
       console.log('⚠️ No locationId provided - skipping world state context');
     }
 
-    // Build enhanced prompt with all context
-    const enhancedPrompt = `PLAYER ACTION: "${userQuery}"
-
-${UNIFIED_SYSTEM_PROMPT}
-
-${actionTypeContext ? `\nACTION TYPE GUIDANCE:\n${actionTypeContext}\n` : ''}
-
-STORY CONTEXT:
-${contextString}
+    // Build enhanced prompt with all context, trimmed to the token budget.
+    // Lower priority sections are summarized, trimmed or dropped first. The
+    // player's message comes last, delimited, after everything it must not override.
+    const tokenLimit = parseInt(process.env.PROMPT_TOKEN_LIMIT || '', 10) || DEFAULT_PROMPT_TOKEN_LIMIT;
+    const { prompt: enhancedPrompt, report: promptBudget, fingerprint: sectionsFingerprint } = new PromptBuilder(tokenLimit)
+      .addSection({
+        id: 'action_guidance',
+        header: 'ACTION TYPE GUIDANCE:',
+        units: [actionTypeContext],
+        priority: 80
+      })
+      .addSection({
+        id: 'current_location',
+        header: 'CURRENT LOCATION:',
+        units: locationContext,
+        priority: 85,
+        volatile: true
+      })
+      .addSection({
+        id: 'current_objectives',
+        header: 'CURRENT OBJECTIVES:',
+        units: objectivesContext,
+        priority: 78,
+        volatile: true
+      })
+      .addSection({
+        id: 'story_context',
+        header: 'STORY CONTEXT:',
+        units: storyContext.map(ctx => this.buildContextString([ctx])),
+        separator: '\n\n',
+        priority: 60,
+        maxTokens: 1500,
+        // Ranked around the session's location, which a retried turn may already have left
+        volatile: true
+      })
+      .addSection({
+        id: 'recent_events',
+        header: 'RECENT EVENTS:',
+        units: conversationString.split('\n'),
+        priority: 70,
+        maxTokens: 1500,
+        trimFrom: 'start'
+      })
+      .addSection({
+        id: 'inventory',
+        units: inventoryContext.split('\n'),
+        priority: 75,
+        volatile: true,
+        summarize: () => inventoryContext.split('\n').slice(0, 2).join('\n')
+      })
+      .addSection({ id: 'world_items', units: [worldStateContext], priority: 50, volatile: true })
+      .addSection({
+        id: 'available_items',
+        header: 'AVAILABLE STORY ITEMS:',
+        units: availableItems.map(item => `- ${item.id}: ${item.name} (${item.type}) - ${item.description}`),
+        priority: 30,
+        maxTokens: 1000,
+        summarize: () => availableItems.map(item => `${item.id} (${item.name})`).join(', ')
+      })
+      .addSection({
+        id: 'player_action',
+        header: 'PLAYER ACTION:',
+        units: [delimitPlayerText(userQuery)],
+        priority: 100,
+        required: true
+      })
+      .addSection({
+        id: 'injection_notice',
+        units: injection.suspicious ? [this.promptTemplates.renderInjectionNotice(promptVersion)] : [],
+        priority: 100,
+        required: true
+      })
+      .addSection({
+        id: 'closing_instruction',
+        units: [this.promptTemplates.renderClosing(promptVersion)],
+        priority: 100,
+        required: true
+      })
+      .build();
+
+    if (promptBudget.dropped.length > 0 || promptBudget.sections.some(section => section.action !== 'kept')) {
+      console.log(`✂️ Prompt trimmed from ~${promptBudget.originalTokens} to ~${promptBudget.estimatedTokens} tokens`,
+        promptBudget.sections.filter(section => section.action !== 'kept').map(section => `${section.id}:${section.action}`));
+    }
 
-RECENT EVENTS:
-${conversationString}${inventoryContext}${worldStateContext}${availableItemsContext}
+    // The system instruction is not part of the prompt, so it is hashed in
+    // separately; a new template version or DM profile changes it
+    const promptFingerprint = crypto
+      .createHash('sha256')
+      .update(`${systemInstruction}\n${sectionsFingerprint}`)
+      .digest('hex');
 
-Start with "You [action]..." then show consequences and advance story.`;
+    // Only report the context documents that survived trimming
+    const keptContext = promptBudget.sections.find(section => section.id === 'story_context')?.keptUnits ?? 0;
 
     return {
       enhancedPrompt: enhancedPrompt.trim(),
-      contextUsed: storyContext.map(ctx => ({
+      contextUsed: storyContext.slice(0, keptContext).map(ctx => ({
         content: ctx.content,
         metadata: ctx.metadata
       })),
-      inventoryValidation
+      inventoryValidation,
+      promptBudget,
+      promptFingerprint,
+      systemInstruction,
+      injection,
+      dmProfile,
+      contentRating
     };
   }
 
+  /**
+   * Describe the session's location and its exits, and ask the model to
+   * report moves by location id, so they resolve reliably
+   */
+  private async buildLocationContext(storyId: string, locationId: string | undefined, exits: LocationExit[] | null): Promise<string[]> {
+    const pack = await this.contentRegistry.getPack(storyId);
+    const location = pack?.locations.find(candidate => candidate.id === locationId);
+    if (!pack || !location) {
+      return [];
+    }
+
+    const lines = [`The player is in ${location.name} (id: ${location.id}).`];
+    if (exits) {
+      lines.push(exits.length > 0 ? 'Exits:' : 'There is no way out of this location yet.');
+      for (const exit of exits) {
+        const status = exit.passable
+          ? { open: 'open', 'one-way': 'open, no way back', locked: 'unlocked', sealed: 'unsealed' }[exit.state]
+          : `${exit.state}${exit.requirement ? `, ${exit.requirement} which the player does not have` : ''}`;
+        lines.push(`- ${exit.name} (${exit.to}): ${status}${exit.description ? ` - ${exit.description}` : ''}`);
+      }
+      lines.push('The player can only leave through an open exit, one per turn. Never narrate them passing a locked or sealed exit.');
+    }
+    lines.push(`Set "context.location" to the id of the location the player is in at the end of this turn: ${pack.locations.map(candidate => candidate.id).join(', ')}.`);
+    return lines;
+  }
+
+  /**
+   * List the objectives the player is working on, and the flags the model
+   * can set when the narrative achieves them
+   */
+  private buildObjectivesContext(quests: QuestView[]): string[] {
+    const lines: string[] = [];
+    for (const quest of quests.filter(candidate => candidate.status === 'active')) {
+      lines.push(`${quest.name}${quest.description ? ` - ${quest.description}` : ''}`);
+      for (const objective of quest.objectives.filter(candidate => candidate.status === 'active')) {
+        const flags = objective.flags.length > 0 ? ` [flags: ${objective.flags.join(', ')}]` : '';
+        lines.push(`- ${objective.description}${flags}`);
+      }
+    }
+    if (lines.length > 0) {
+      lines.push('Steer the story toward these objectives without completing them for the player. Only when the narrative of this turn truly achieves what an objective describes, add its flag to "flags_set".');
+    }
+    return lines;
+  }
+
+  /**
+   * Format retrieved documents as the STORY CONTEXT block of the prompt
+   */
+  private buildContextString(storyContext: Array<{ content: string; metadata: any }>): string {
+    return storyContext
+      .map(ctx => `[${ctx.metadata.category}] ${ctx.content}`)
+      .join('\n\n');
+  }
+
   /**
    * Build optimal conversation history with sliding window and importance scoring
    */
@@ -509,7 +606,7 @@ Start with "You [action]..." then show consequences and advance story.`;
       .map(msg => ({ role: msg.role, content: msg.content }));
 
     return selectedMessages
-      .map(msg => `${msg.role === 'user' ? 'Player' : 'Narrator'}: ${msg.content}`)
+      .map(msg => msg.role === 'user' ? `Player: ${escapePlayerText(msg.content)}` : `Narrator: ${msg.content}`)
       .join('\n');
   }
 
@@ -1,5 +1,7 @@
 import { getDatabase } from '../config/database';
-import { GeminiRAGService } from './geminiRagService';
+import { SummarizationService } from './summarizationService';
+import { SessionStateService } from './sessionStateService';
+import { StoryContentRegistry } from './storyContentRegistry';
 
 export interface StorySession {
   id: string;
@@ -36,7 +38,9 @@ export interface SessionSummary {
 }
 
 export class StorySessionService {
-  private geminiRAG = new GeminiRAGService();
+  private summarizationService = new SummarizationService();
+  private contentRegistry = StoryContentRegistry.getInstance();
+  private sessionStateService = SessionStateService.getInstance();
 
   async createSession(userId: string, storyId: string, sessionName?: string): Promise<StorySession> {
     const db = getDatabase();
@@ -147,38 +151,14 @@ export class StorySessionService {
 
     const messages = await this.getSessionMessages(sessionId, userId);
     
-    // Build conversation history for AI summarization
-    const conversationText = messages
-      .filter(msg => msg.role !== 'system')
-      .map(msg => `${msg.role === 'user' ? 'Player' : 'Narrator'}: ${msg.content}`)
-      .join('\n\n');
-
-    // Generate AI summary
-    const summaryPrompt = `Please create a detailed but concise summary of this D&D/story session. Focus on:
-1. Key story beats and plot developments
-2. Important character interactions and relationships
-3. Major decisions made by the player
-4. Current situation/location
-5. Unresolved plot threads
-
-Format as JSON with these fields:
-- summary: Overall narrative summary (2-3 paragraphs)
-- keyEvents: Array of 5-7 most important events
-- characterRelationships: Object mapping character names to relationship status
-- lastScene: Description of where the story left off
-
-Conversation:
-${conversationText}`;
-
     try {
-      const aiResponse = await this.geminiRAG.generateStoryWithRAG(
-        session.story_id,
-        summaryPrompt,
-        []
-      );
-
-      // Parse AI response as JSON
-      const summaryData = JSON.parse(aiResponse.response);
+      const pack = await this.contentRegistry.getPack(session.story_id);
+      const summaryData = await this.summarizationService.summarizeTranscript(messages, {
+        storyId: session.story_id,
+        storyTitle: pack?.story?.name,
+        sessionId,
+        userId
+      });
       
       // Save summary to database
       await db.query(
@@ -195,12 +175,7 @@ ${conversationText}`;
         ]
       );
 
-      return {
-        summary: summaryData.summary,
-        keyEvents: summaryData.keyEvents,
-        characterRelationships: summaryData.characterRelationships,
-        lastScene: summaryData.lastScene
-      };
+      return summaryData;
 
     } catch (error) {
       console.error('Error generating session summary:', error);
@@ -234,14 +209,33 @@ ${conversationText}`;
     );
   }
 
+  /**
+   * Mark a session completed when its story reaches an ending. Story turns
+   * name their session by id only, so the owner is not checked here.
+   */
+  async completeSession(sessionId: string): Promise<boolean> {
+    const db = getDatabase();
+
+    const result = await db.query(
+      `UPDATE story_sessions
+       SET status = 'completed', completed_at = CURRENT_TIMESTAMP
+       WHERE id::text = $1 AND status = 'active'`,
+      [sessionId]
+    );
+    return !!result.rowCount;
+  }
+
   async deleteSession(sessionId: string, userId: string): Promise<void> {
     const db = getDatabase();
     
     // This will cascade delete all messages due to foreign key constraint
-    await db.query(
+    const result = await db.query(
       'DELETE FROM story_sessions WHERE id = $1 AND user_id = $2',
       [sessionId, userId]
     );
+    if (result.rowCount) {
+      await this.sessionStateService.clear(sessionId);
+    }
   }
 
   async restartSession(sessionId: string, userId: string): Promise<StorySession> {
@@ -259,6 +253,9 @@ ${conversationText}`;
       [sessionId]
     );
 
+    // Back to the story's starting location
+    await this.sessionStateService.clear(sessionId);
+
     // Reset session state
     const result = await db.query(
       `UPDATE story_sessions 
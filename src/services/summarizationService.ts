@@ -0,0 +1,216 @@
+import { LLMProvider } from '../types/llm';
+import { ModelRouter, ResolvedRoute } from './llm/modelRouter';
+import { SESSION_SUMMARY_SCHEMA } from './llm/responseSchemas';
+import { validateAgainstSchema } from './llm/schemaValidator';
+import { estimateTokens } from './promptBuilder';
+import { UsageService } from './usageService';
+import { SessionSummary } from './storySessionService';
+
+const DEFAULT_CHUNK_TOKENS = 6000;
+const MAX_KEY_EVENTS = 7;
+
+export interface TranscriptMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+export interface SummarizationContext {
+  storyId: string;
+  storyTitle?: string;
+  sessionId?: string;
+  userId?: string;
+}
+
+const SUMMARY_INSTRUCTIONS = `You summarize interactive fiction sessions for the player and for the storyteller who will continue the story.
+Capture:
+1. Key story beats and plot developments
+2. Important character interactions and relationships
+3. Major decisions made by the player
+4. The current situation and location
+5. Unresolved plot threads
+
+Respond with JSON:
+- summary: overall narrative summary (2-3 paragraphs)
+- keyEvents: the 5-7 most important events, in order
+- characterRelationships: one entry per character with the player's relationship to them
+- lastScene: where the story left off`;
+
+/**
+ * Summarizes session transcripts with the 'summarize' model route. Long
+ * transcripts are split into chunks that are summarized separately (map) and
+ * then combined (reduce), repeatedly if the partial summaries are still too
+ * long for one request.
+ */
+export class SummarizationService {
+  private modelRouter = ModelRouter.getInstance();
+  private usageService = UsageService.getInstance();
+  private chunkTokens: number;
+
+  constructor(private llmProvider?: LLMProvider, chunkTokens?: number) {
+    this.chunkTokens = chunkTokens ?? (parseInt(process.env.SUMMARY_CHUNK_TOKENS || '', 10) || DEFAULT_CHUNK_TOKENS);
+  }
+
+  async summarizeTranscript(messages: TranscriptMessage[], context: SummarizationContext): Promise<SessionSummary> {
+    const lines = messages
+      .filter(message => message.role !== 'system')
+      .map(message => `${message.role === 'user' ? 'Player' : 'Narrator'}: ${message.content}`);
+
+    if (lines.length === 0) {
+      throw new Error('Cannot summarize an empty transcript');
+    }
+
+    const chunks = this.chunkLines(lines);
+    if (chunks.length === 1) {
+      return this.toSessionSummary(await this.summarizeChunk(chunks[0], context));
+    }
+
+    console.log(`🧩 Summarizing ${lines.length} messages in ${chunks.length} chunks`);
+    let partials: any[] = [];
+    for (let index = 0; index < chunks.length; index++) {
+      partials.push(await this.summarizeChunk(chunks[index], context, { part: index + 1, of: chunks.length }));
+    }
+
+    // Combine partial summaries, in groups that fit one request, until one remains
+    while (partials.length > 1) {
+      const serialized = partials.map(partial => JSON.stringify(partial));
+      let groups = this.groupByTokens(serialized);
+      if (groups.length === partials.length) {
+        // Every partial fills a request on its own; combine pairwise so each round still shrinks
+        groups = [];
+        for (let index = 0; index < serialized.length; index += 2) {
+          groups.push(serialized.slice(index, index + 2));
+        }
+      }
+
+      const combined: any[] = [];
+      for (const group of groups) {
+        combined.push(group.length === 1 ? JSON.parse(group[0]) : await this.combineSummaries(group, context));
+      }
+      partials = combined;
+    }
+
+    return this.toSessionSummary(partials[0]);
+  }
+
+  private async summarizeChunk(
+    lines: string[],
+    context: SummarizationContext,
+    position?: { part: number; of: number }
+  ): Promise<any> {
+    const scope = position
+      ? `This is part ${position.part} of ${position.of} of the session transcript; summarize only this part.`
+      : 'This is the full session transcript.';
+    return this.callModel(
+      `${SUMMARY_INSTRUCTIONS}
+
+Story: ${context.storyTitle || context.storyId}
+${scope}
+
+Transcript:
+${lines.join('\n\n')}`,
+      context
+    );
+  }
+
+  private async combineSummaries(partials: string[], context: SummarizationContext): Promise<any> {
+    return this.callModel(
+      `${SUMMARY_INSTRUCTIONS}
+
+Story: ${context.storyTitle || context.storyId}
+Below are summaries of consecutive parts of one session, in order. Combine them into a single summary of the whole session; the last part determines lastScene.
+
+Part summaries:
+${partials.map((partial, index) => `Part ${index + 1}: ${partial}`).join('\n\n')}`,
+      context
+    );
+  }
+
+  private async callModel(prompt: string, context: SummarizationContext): Promise<any> {
+    const route = this.route();
+    const completion = await route.provider.generate({
+      messages: [{ role: 'user', text: prompt }],
+      model: route.model,
+      responseSchema: route.responseSchema || SESSION_SUMMARY_SCHEMA,
+      generationConfig: route.generationConfig
+    });
+
+    if (completion.usage) {
+      void this.usageService.recordUsage({
+        userId: context.userId,
+        sessionId: context.sessionId,
+        storyId: context.storyId,
+        provider: completion.provider,
+        model: completion.model,
+        task: 'summarize',
+        promptTokens: completion.usage.promptTokens,
+        candidateTokens: completion.usage.candidateTokens,
+        totalTokens: completion.usage.totalTokens
+      });
+    }
+
+    const summary = JSON.parse(completion.text);
+    const violations = validateAgainstSchema(summary, SESSION_SUMMARY_SCHEMA);
+    if (violations.length > 0) {
+      throw new Error(`Invalid summary: ${violations.map(violation => `${violation.path} ${violation.message}`).join('; ')}`);
+    }
+    return summary;
+  }
+
+  /**
+   * Split transcript lines into chunks of at most chunkTokens; an oversized
+   * line is cut into pieces first
+   */
+  private chunkLines(lines: string[]): string[][] {
+    const maxChars = this.chunkTokens * 4;
+    const pieces = lines.flatMap(line => {
+      if (estimateTokens(line) <= this.chunkTokens) return [line];
+      const parts: string[] = [];
+      for (let offset = 0; offset < line.length; offset += maxChars) {
+        parts.push(line.slice(offset, offset + maxChars));
+      }
+      return parts;
+    });
+    return this.groupByTokens(pieces);
+  }
+
+  /**
+   * Pack items, in order, into groups of at most chunkTokens (an item larger
+   * than that gets a group of its own)
+   */
+  private groupByTokens(items: string[]): string[][] {
+    const groups: string[][] = [];
+    let current: string[] = [];
+    let currentTokens = 0;
+
+    for (const item of items) {
+      const tokens = estimateTokens(item);
+      if (current.length > 0 && currentTokens + tokens > this.chunkTokens) {
+        groups.push(current);
+        current = [];
+        currentTokens = 0;
+      }
+      current.push(item);
+      currentTokens += tokens;
+    }
+    if (current.length > 0) {
+      groups.push(current);
+    }
+    return groups;
+  }
+
+  private toSessionSummary(summary: any): SessionSummary {
+    return {
+      summary: summary.summary,
+      keyEvents: summary.keyEvents.slice(0, MAX_KEY_EVENTS),
+      characterRelationships: Object.fromEntries(
+        summary.characterRelationships.map((entry: any) => [entry.character, entry.relationship])
+      ),
+      lastScene: summary.lastScene
+    };
+  }
+
+  private route(): ResolvedRoute {
+    const route = this.modelRouter.resolve('summarize');
+    return this.llmProvider ? { ...route, provider: this.llmProvider } : route;
+  }
+}
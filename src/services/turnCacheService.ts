@@ -0,0 +1,147 @@
+import { TurnCacheBackend, TurnCacheKey } from '../types/turnCache';
+
+const DEFAULT_TTL_MS = 10 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * In-process LRU with per-entry expiry
+ */
+export class InMemoryTurnCacheBackend<T = any> implements TurnCacheBackend<T> {
+  private entries = new Map<string, { value: T; expiresAt: number }>();
+
+  constructor(private maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+  async get(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Thrown by a turn's produce function when it gave up because its own client
+ * went away. Requests waiting on the same turn then generate it themselves
+ * instead of failing with it.
+ */
+export class TurnAbandonedError extends Error {
+  constructor(message = 'Turn abandoned by its client') {
+    super(message);
+    this.name = 'TurnAbandonedError';
+  }
+}
+
+/**
+ * Caches the full response of a story turn so a client retry of the same
+ * turn gets the original result: no second model call and no second
+ * application of its inventory changes.
+ */
+export class TurnCacheService {
+  private static instance: TurnCacheService;
+  private backend: TurnCacheBackend;
+  private ttlMs: number;
+  // Turns currently being generated, so a retry that arrives mid-flight waits for the original
+  private inFlight = new Map<string, Promise<any>>();
+
+  constructor(backend?: TurnCacheBackend, ttlMs?: number) {
+    this.ttlMs = ttlMs ?? (parseInt(process.env.TURN_CACHE_TTL_MS || '', 10) || DEFAULT_TTL_MS);
+    this.backend = backend ?? new InMemoryTurnCacheBackend(
+      parseInt(process.env.TURN_CACHE_MAX_ENTRIES || '', 10) || DEFAULT_MAX_ENTRIES
+    );
+  }
+
+  static getInstance(): TurnCacheService {
+    if (!TurnCacheService.instance) {
+      TurnCacheService.instance = new TurnCacheService();
+    }
+    return TurnCacheService.instance;
+  }
+
+  /**
+   * Swap the storage backend (e.g. for a shared store across instances)
+   */
+  setBackend(backend: TurnCacheBackend): void {
+    this.backend = backend;
+  }
+
+  buildKey({ sessionId, turnNumber, promptFingerprint }: TurnCacheKey): string {
+    return `turn:${sessionId}:${turnNumber}:${promptFingerprint}`;
+  }
+
+  /**
+   * Return the cached value for key, or run produce and cache its result.
+   * Failed turns are not cached. If the turn being waited for is abandoned
+   * (TurnAbandonedError), the waiter produces it instead.
+   */
+  async resolve<T>(key: string, produce: () => Promise<T>): Promise<{ value: T; cached: boolean }> {
+    let pending = this.inFlight.get(key);
+    while (pending) {
+      console.log(`♻️ Turn ${key} already in progress, waiting for it`);
+      try {
+        return { value: await pending, cached: true };
+      } catch (error) {
+        if (!(error instanceof TurnAbandonedError)) {
+          throw error;
+        }
+        console.log(`♻️ Turn ${key} was abandoned by its client, taking it over`);
+      }
+      // Another waiter may have taken it over first
+      pending = this.inFlight.get(key);
+    }
+
+    // Claim the key before the first await, so a retry arriving during the
+    // cache read waits for this call instead of producing the turn again
+    let settle!: { resolve: (value: T) => void; reject: (error: unknown) => void };
+    const promise = new Promise<T>((resolve, reject) => {
+      settle = { resolve, reject };
+    });
+    // Waiters handle a failure themselves; don't report it as unhandled when there are none
+    promise.catch(() => undefined);
+    this.inFlight.set(key, promise);
+
+    try {
+      const cached = await this.backend.get(key).catch(error => {
+        console.error('❌ Turn cache read failed:', error);
+        return undefined;
+      });
+      if (cached !== undefined) {
+        console.log(`♻️ Serving cached turn ${key}`);
+        settle.resolve(cached);
+        return { value: cached, cached: true };
+      }
+
+      const value = await produce();
+      settle.resolve(value);
+      await this.backend.set(key, value, this.ttlMs).catch(error => {
+        console.error('❌ Turn cache write failed:', error);
+      });
+      return { value, cached: false };
+    } catch (error) {
+      settle.reject(error);
+      throw error;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+}
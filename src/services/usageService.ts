@@ -0,0 +1,279 @@
+import { getDatabase } from '../config/database';
+import { QuotaStatus, TierQuota, UsagePeriod, UsageRecord, UsageTotals } from '../types/usage';
+
+export const DEFAULT_USAGE_TIER = 'free';
+
+const DEFAULT_TIER_QUOTAS: Record<string, TierQuota> = {
+  free: { daily: 100000, monthly: 1500000 },
+  premium: { daily: 1000000, monthly: 20000000 },
+  unlimited: {}
+};
+
+// USD per million tokens, used for spend estimates in the admin report
+const DEFAULT_MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+  'gemini-2.5-pro': { input: 1.25, output: 10.00 }
+};
+
+const CREATE_USAGE_TABLE = `
+  CREATE TABLE IF NOT EXISTS llm_usage (
+    id BIGSERIAL PRIMARY KEY,
+    user_id TEXT,
+    session_id TEXT,
+    story_id TEXT,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    task TEXT NOT NULL,
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    candidate_tokens INTEGER NOT NULL DEFAULT 0,
+    total_tokens INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  );
+  CREATE INDEX IF NOT EXISTS idx_llm_usage_user_created ON llm_usage (user_id, created_at);
+  CREATE INDEX IF NOT EXISTS idx_llm_usage_created ON llm_usage (created_at);
+`;
+
+function parseJsonEnv<T>(name: string, fallback: T): T {
+  const value = process.env[name];
+  if (!value) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    console.error(`❌ Invalid JSON in ${name}, using defaults:`, error);
+    return fallback;
+  }
+}
+
+/**
+ * Persists LLM token usage per user, session and story in Postgres and
+ * enforces per-tier daily/monthly token quotas.
+ *
+ * Accounting never blocks play: if the database is unavailable, usage is not
+ * recorded and quota checks allow the request.
+ */
+export class UsageService {
+  private static instance: UsageService;
+  private tierQuotas: Record<string, TierQuota>;
+  private modelPricing: Record<string, { input: number; output: number }>;
+  private schemaReady: Promise<void> | null = null;
+
+  constructor() {
+    this.tierQuotas = parseJsonEnv('USAGE_TIER_QUOTAS', DEFAULT_TIER_QUOTAS);
+    this.modelPricing = { ...DEFAULT_MODEL_PRICING, ...parseJsonEnv('LLM_MODEL_PRICING', {}) };
+  }
+
+  static getInstance(): UsageService {
+    if (!UsageService.instance) {
+      UsageService.instance = new UsageService();
+    }
+    return UsageService.instance;
+  }
+
+  async recordUsage(record: UsageRecord): Promise<void> {
+    try {
+      await this.ensureSchema();
+      await getDatabase().query(
+        `INSERT INTO llm_usage (user_id, session_id, story_id, provider, model, task, prompt_tokens, candidate_tokens, total_tokens)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [
+          record.userId || null,
+          record.sessionId || null,
+          record.storyId || null,
+          record.provider,
+          record.model,
+          record.task,
+          record.promptTokens,
+          record.candidateTokens,
+          record.totalTokens
+        ]
+      );
+    } catch (error) {
+      console.error('❌ Failed to record LLM usage:', error);
+    }
+  }
+
+  /**
+   * Check a user's token usage against their tier's daily and monthly limits
+   */
+  async checkQuota(userId: string, tier: string = DEFAULT_USAGE_TIER): Promise<QuotaStatus> {
+    const quota = this.tierQuotas[tier] ?? this.tierQuotas[DEFAULT_USAGE_TIER] ?? {};
+    const now = new Date();
+    const periodStart = { daily: startOfUtcDay(now), monthly: startOfUtcMonth(now) };
+    const status: QuotaStatus = {
+      tier,
+      allowed: true,
+      usage: { daily: 0, monthly: 0 },
+      limits: { daily: quota.daily ?? null, monthly: quota.monthly ?? null },
+      resetsAt: {
+        daily: addUtcDays(periodStart.daily, 1).toISOString(),
+        monthly: addUtcMonths(periodStart.monthly, 1).toISOString()
+      }
+    };
+
+    try {
+      await this.ensureSchema();
+      const result = await getDatabase().query(
+        `SELECT
+           COALESCE(SUM(total_tokens) FILTER (WHERE created_at >= $2), 0) AS daily,
+           COALESCE(SUM(total_tokens), 0) AS monthly
+         FROM llm_usage
+         WHERE user_id = $1 AND created_at >= $3`,
+        [userId, periodStart.daily, periodStart.monthly]
+      );
+      status.usage = {
+        daily: Number(result.rows[0].daily),
+        monthly: Number(result.rows[0].monthly)
+      };
+    } catch (error) {
+      console.error('❌ Failed to load LLM usage, allowing request:', error);
+      return status;
+    }
+
+    for (const period of ['daily', 'monthly'] as UsagePeriod[]) {
+      const limit = status.limits[period];
+      if (limit !== null && status.usage[period] >= limit) {
+        status.allowed = false;
+        status.exceeded = period;
+        break;
+      }
+    }
+    return status;
+  }
+
+  /**
+   * Per-session and per-story token totals for one user in the current month
+   */
+  async getUserUsage(userId: string): Promise<{ bySession: any[]; byStory: any[] }> {
+    await this.ensureSchema();
+    const db = getDatabase();
+    const since = startOfUtcMonth(new Date());
+    const [bySession, byStory] = await Promise.all([
+      db.query(
+        `SELECT session_id, story_id, ${TOTAL_COLUMNS}
+         FROM llm_usage WHERE user_id = $1 AND created_at >= $2
+         GROUP BY session_id, story_id ORDER BY total_tokens DESC`,
+        [userId, since]
+      ),
+      db.query(
+        `SELECT story_id, ${TOTAL_COLUMNS}
+         FROM llm_usage WHERE user_id = $1 AND created_at >= $2
+         GROUP BY story_id ORDER BY total_tokens DESC`,
+        [userId, since]
+      )
+    ]);
+    return {
+      bySession: bySession.rows.map(row => ({ sessionId: row.session_id, storyId: row.story_id, ...toTotals(row) })),
+      byStory: byStory.rows.map(row => ({ storyId: row.story_id, ...toTotals(row) }))
+    };
+  }
+
+  /**
+   * Aggregate usage and estimated spend across all users, grouped by one
+   * dimension
+   */
+  async getAggregateUsage(
+    groupBy: 'day' | 'user' | 'story' | 'model' | 'task',
+    from: Date,
+    to: Date
+  ): Promise<{ groups: Array<{ key: string | null } & UsageTotals & { estimatedCostUsd: number }>; totals: UsageTotals & { estimatedCostUsd: number } }> {
+    await this.ensureSchema();
+    const groupExpression = {
+      day: `to_char(date_trunc('day', created_at AT TIME ZONE 'UTC'), 'YYYY-MM-DD')`,
+      user: 'user_id',
+      story: 'story_id',
+      model: 'model',
+      task: 'task'
+    }[groupBy];
+
+    // Grouped by model as well so spend can be priced per model
+    const result = await getDatabase().query(
+      `SELECT ${groupExpression} AS group_key, model, ${TOTAL_COLUMNS}
+       FROM llm_usage WHERE created_at >= $1 AND created_at < $2
+       GROUP BY group_key, model`,
+      [from, to]
+    );
+
+    const groups = new Map<string | null, UsageTotals & { estimatedCostUsd: number }>();
+    const totals = { promptTokens: 0, candidateTokens: 0, totalTokens: 0, calls: 0, estimatedCostUsd: 0 };
+    for (const row of result.rows) {
+      const rowTotals = toTotals(row);
+      const cost = this.estimateCost(row.model, rowTotals.promptTokens, rowTotals.candidateTokens);
+      const group = groups.get(row.group_key) || { promptTokens: 0, candidateTokens: 0, totalTokens: 0, calls: 0, estimatedCostUsd: 0 };
+      for (const target of [group, totals]) {
+        target.promptTokens += rowTotals.promptTokens;
+        target.candidateTokens += rowTotals.candidateTokens;
+        target.totalTokens += rowTotals.totalTokens;
+        target.calls += rowTotals.calls;
+        target.estimatedCostUsd += cost;
+      }
+      groups.set(row.group_key, group);
+    }
+
+    return {
+      groups: Array.from(groups.entries())
+        .map(([key, group]) => ({ key, ...group, estimatedCostUsd: roundCost(group.estimatedCostUsd) }))
+        .sort((a, b) => b.totalTokens - a.totalTokens),
+      totals: { ...totals, estimatedCostUsd: roundCost(totals.estimatedCostUsd) }
+    };
+  }
+
+  private estimateCost(model: string, promptTokens: number, candidateTokens: number): number {
+    const pricing = this.modelPricing[model];
+    if (!pricing) {
+      return 0;
+    }
+    return (promptTokens * pricing.input + candidateTokens * pricing.output) / 1_000_000;
+  }
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = getDatabase()
+        .query(CREATE_USAGE_TABLE)
+        .then(() => undefined)
+        .catch(error => {
+          // Retry on the next call
+          this.schemaReady = null;
+          throw error;
+        });
+    }
+    return this.schemaReady;
+  }
+}
+
+const TOTAL_COLUMNS = `
+  COALESCE(SUM(prompt_tokens), 0) AS prompt_tokens,
+  COALESCE(SUM(candidate_tokens), 0) AS candidate_tokens,
+  COALESCE(SUM(total_tokens), 0) AS total_tokens,
+  COUNT(*) AS calls`;
+
+function toTotals(row: any): UsageTotals {
+  return {
+    promptTokens: Number(row.prompt_tokens),
+    candidateTokens: Number(row.candidate_tokens),
+    totalTokens: Number(row.total_tokens),
+    calls: Number(row.calls)
+  };
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function startOfUtcMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function addUtcDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+function addUtcMonths(date: Date, months: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+}
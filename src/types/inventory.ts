@@ -128,4 +128,8 @@ export interface DynamicItemSpec {
   usableInCombat?: boolean;
   iconUrl?: string;
   source?: string;
-}
\ No newline at end of file
+}
+export interface RejectedItemGrant {
+  name: string;
+  reason: string;
+}
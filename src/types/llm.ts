@@ -0,0 +1,73 @@
+// Provider-neutral types for LLM calls
+
+import { ContentRating } from './moderation';
+
+export interface LLMMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface LLMGenerationConfig {
+  temperature?: number;
+  topK?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  systemInstruction?: string;
+  // Gemini-style response schema (OBJECT/ARRAY/STRING...); requests JSON output when set
+  responseSchema?: any;
+  generationConfig?: LLMGenerationConfig;
+  // Overrides the provider's default model
+  model?: string;
+  // Aborts the underlying HTTP request (e.g. when an SSE client disconnects)
+  signal?: AbortSignal;
+  // Rating of the story the request is for; providers with their own safety
+  // filters pick their thresholds from it
+  contentRating?: ContentRating;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  candidateTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  provider: string;
+  model: string;
+  usage?: LLMUsage;
+  finishReason?: string;
+}
+
+export interface LLMStreamChunk {
+  text: string;
+  model?: string;
+  usage?: LLMUsage;
+  finishReason?: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+  // Yields text fragments as the model produces them
+  generateStream(request: LLMRequest): AsyncIterable<LLMStreamChunk>;
+}
+
+export type LLMTask = 'narrate' | 'summarize' | 'classify' | 'repair' | 'epilogue';
+
+/**
+ * One entry of the model routing table (data/llm-routes.json)
+ */
+export interface LLMRoute {
+  // Provider id (gemini, openai, mock); defaults to LLM_PROVIDER
+  provider?: string;
+  // Model name, or a map of provider id to model name; unset uses the provider's default
+  model?: string | Record<string, string>;
+  generationConfig?: LLMGenerationConfig;
+  // Name of a registered response schema, or null for free text
+  schema?: string | null;
+}
@@ -0,0 +1,81 @@
+// Content moderation of player input and generated turns
+
+export type ContentRating = 'everyone' | 'teen' | 'mature';
+
+export type ModerationSeverity = 'none' | 'mild' | 'moderate' | 'severe';
+
+export type ModerationAction = 'allow' | 'rewrite' | 'block';
+
+// 'input' is the player's message before generation, 'output' the generated turn
+export type ModerationStage = 'input' | 'output';
+
+export interface ModerationRule {
+  category: string;
+  severity: ModerationSeverity;
+  // Words or phrases, matched case-insensitively on word boundaries
+  terms: string[];
+  // Substituted for matched terms when the policy rewrites instead of blocking
+  replacement?: string;
+}
+
+export interface RatingPolicy {
+  // Highest severity passed through untouched
+  allow: ModerationSeverity;
+  // Lowest severity that is blocked; anything in between is rewritten
+  block: ModerationSeverity;
+}
+
+export interface ModerationRuleSet {
+  rules: ModerationRule[];
+  ratings: Record<ContentRating, RatingPolicy>;
+}
+
+export interface ModerationMatch {
+  category: string;
+  severity: ModerationSeverity;
+  term: string;
+  start: number;
+  end: number;
+  replacement?: string;
+}
+
+export interface ContentClassification {
+  // Highest severity found in the text
+  severity: ModerationSeverity;
+  categories: string[];
+  // Located spans; classifiers that cannot locate content return none, so
+  // their findings can only be allowed or blocked
+  matches: ModerationMatch[];
+  classifier: string;
+}
+
+export interface ContentClassifierContext {
+  storyId: string;
+  sessionId?: string;
+  userId?: string;
+  stage: ModerationStage;
+}
+
+export interface ContentClassifier {
+  readonly id: string;
+  classify(text: string, context: ContentClassifierContext): Promise<ContentClassification>;
+}
+
+export interface ModerationDecision {
+  stage: ModerationStage;
+  action: ModerationAction;
+  rating: ContentRating;
+  severity: ModerationSeverity;
+  categories: string[];
+  classifier: string;
+}
+
+export interface ModerationLogEntry extends ModerationDecision {
+  id: number;
+  storyId: string | null;
+  sessionId: string | null;
+  userId: string | null;
+  originalText: string | null;
+  rewrittenText: string | null;
+  createdAt: string;
+}
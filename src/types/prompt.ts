@@ -0,0 +1,85 @@
+export interface PromptSection {
+  id: string;
+  // Emitted above the section's units, e.g. "STORY CONTEXT:"
+  header?: string;
+  units: string[];
+  // Joins units; defaults to a newline
+  separator?: string;
+  // Higher priority sections are reduced last
+  priority: number;
+  // Required sections are never trimmed or dropped
+  required?: boolean;
+  // Per-section token budget, applied before the overall limit
+  maxTokens?: number;
+  // Which end units are removed from when trimming (default 'end')
+  trimFrom?: 'start' | 'end';
+  // Compact replacement tried before trimming individual units
+  summarize?: () => string;
+  // Mirrors mutable game state (inventory, world items); left out of the
+  // prompt fingerprint so a retried turn still matches after its effects landed
+  volatile?: boolean;
+}
+
+export type PromptSectionAction = 'kept' | 'trimmed' | 'summarized' | 'dropped';
+
+export interface PromptSectionReport {
+  id: string;
+  priority: number;
+  originalTokens: number;
+  finalTokens: number;
+  originalUnits: number;
+  keptUnits: number;
+  action: PromptSectionAction;
+}
+
+export interface PromptBudgetReport {
+  tokenLimit: number;
+  originalTokens: number;
+  estimatedTokens: number;
+  withinLimit: boolean;
+  sections: PromptSectionReport[];
+  dropped: string[];
+}
+
+export interface InjectionAssessment {
+  suspicious: boolean;
+  // Names of the heuristics that matched, e.g. 'override_instructions'
+  signals: string[];
+}
+
+// Versioned prompt templates (data/prompts/<version>/)
+export interface PromptTemplateSet {
+  version: string;
+  system: string;
+  closing: string;
+  injectionNotice: string;
+  // Instructions for the closing narration when a session reaches an ending
+  epilogue: string;
+  // Guidance per action type; 'default' covers unknown types
+  actions: Record<string, string>;
+}
+
+export interface PromptExperimentArm {
+  id: string;
+  version: string;
+  // Relative share of subjects assigned to this arm
+  weight: number;
+}
+
+export interface PromptExperiment {
+  id: string;
+  description?: string;
+  arms: PromptExperimentArm[];
+}
+
+export interface PromptExperimentConfig {
+  // Version used outside the experiment and for anonymous requests
+  defaultVersion: string;
+  experiment?: PromptExperiment | null;
+}
+
+export interface PromptAssignment {
+  version: string;
+  experimentId?: string;
+  arm?: string;
+}
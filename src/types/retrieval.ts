@@ -0,0 +1,102 @@
+export type DocumentField = 'name' | 'keywords' | 'body';
+
+export interface StoryDocument {
+  content: string;
+  metadata: any;
+  // Searchable text per field; fields are boosted independently at query time
+  fields: Partial<Record<DocumentField, string>>;
+  // Multiplier applied to the final relevance score (e.g. lore importance)
+  weight?: number;
+}
+
+export interface SceneFilter {
+  locationId: string;
+  // Characters present in the scene; derived from the location's inhabitants when omitted
+  characterIds?: string[];
+  visitedLocationIds?: string[];
+  // Drop documents tied to unvisited locations instead of demoting them
+  excludeUnvisited?: boolean;
+}
+
+export interface ScoredDocument {
+  content: string;
+  relevanceScore: number;
+  metadata: any;
+}
+
+export interface IndexedDocument {
+  document: StoryDocument;
+  termFrequencies: Partial<Record<DocumentField, Map<string, number>>>;
+  fieldLengths: Partial<Record<DocumentField, number>>;
+}
+
+export interface StoryIndex {
+  storyId: string;
+  signature: string;
+  documents: IndexedDocument[];
+  documentFrequency: Map<string, number>;
+  averageFieldLength: Partial<Record<DocumentField, number>>;
+  config: StoryRetrievalConfig;
+  // Document vectors per embedding provider id, computed lazily
+  vectors: Map<string, Promise<number[][]>>;
+  builtAt: Date;
+}
+
+export type RetrievalMode = 'keyword' | 'semantic' | 'hybrid';
+
+export interface StoryRetrievalConfig {
+  mode: RetrievalMode;
+  embeddingProvider: string; // 'local' | 'gemini'
+  // Weight of the vector score in hybrid mode (0 = keyword only, 1 = vector only)
+  semanticWeight: number;
+  // Cosine similarity below which a vector match is ignored
+  minSimilarity: number;
+}
+
+export interface EmbeddingProvider {
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface TermContribution {
+  term: string;
+  idf: number;
+  score: number;
+  // Share of the term's score contributed by each field
+  fields: Partial<Record<DocumentField, number>>;
+}
+
+export type ExclusionReason = 'no_match' | 'below_similarity_threshold' | 'scene_filter' | 'rank_cutoff';
+
+export interface DocumentExplanation {
+  id: string;
+  type: string;
+  name: string;
+  category: string;
+  keywordScore: number;
+  termContributions: TermContribution[];
+  vectorSimilarity?: number;
+  combinedScore: number;
+  weight: number;
+  sceneMultiplier: number;
+  sceneReason?: string;
+  finalScore: number;
+  included: boolean;
+  exclusionReason?: ExclusionReason;
+}
+
+export interface SearchExplanation {
+  storyId: string;
+  query: string;
+  queryTerms: string[];
+  config: StoryRetrievalConfig;
+  scene?: {
+    locationId: string;
+    characterIds: string[];
+    visitedLocationIds: string[];
+    excludeUnvisited: boolean;
+    applied: boolean;
+  };
+  results: DocumentExplanation[];
+  excluded: DocumentExplanation[];
+}
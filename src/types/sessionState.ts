@@ -0,0 +1,87 @@
+// Game state the server tracks per play session
+
+import { ConnectionState } from './storyContent';
+
+export interface SessionLocation {
+  // Location id from the story's locations.json; null for stories without locations
+  locationId: string | null;
+  // Locations reached so far, in order of first visit
+  visitedLocationIds: string[];
+  // Locked or sealed connections the player has passed ("from>to"); they stay open
+  unlockedConnections: string[];
+}
+
+export interface LocationUpdate extends SessionLocation {
+  previousLocationId: string | null;
+  moved: boolean;
+  // context.location as the model reported it
+  reported?: string;
+  // False when the report did not match a location of the story
+  resolved: boolean;
+  // Set when the reported move broke the location graph and was not applied
+  rejectedReason?: string;
+}
+
+// A connection out of the session's location, with whether it can be used now
+export interface LocationExit {
+  to: string;
+  name: string;
+  state: ConnectionState;
+  passable: boolean;
+  requirement?: string;
+  description?: string;
+}
+
+export type QuestStatus = 'locked' | 'active' | 'completed' | 'failed';
+
+// Stored progress of one quest in a session
+export interface QuestProgress {
+  status: QuestStatus;
+  objectives: Record<string, QuestStatus>;
+}
+
+export interface SessionQuestState {
+  // Story flags the DM has set in this session
+  flags: string[];
+  // Progress by quest id
+  quests: Record<string, QuestProgress>;
+}
+
+// A quest with its progress, as shown to the model and the client
+export interface QuestView {
+  id: string;
+  name: string;
+  description?: string;
+  status: QuestStatus;
+  objectives: Array<{
+    id: string;
+    description: string;
+    status: QuestStatus;
+    // Flags that complete or fail the objective, for the DM
+    flags: string[];
+  }>;
+}
+
+export interface QuestChange {
+  questId: string;
+  // Absent for changes of the quest itself
+  objectiveId?: string;
+  status: QuestStatus;
+}
+
+// The ending a session reached; no turns are accepted after it, except
+// retries of the turn that reached it
+export interface SessionEnding {
+  endingId: string;
+  name: string;
+  epilogue: string;
+  reachedAt: string;
+  turnNumber: number;
+}
+
+// The turn that reached a session's ending, kept so a retry of it can be
+// answered; only the player who played it gets it back
+export interface SessionFinalTurn {
+  userId?: string;
+  response: any;
+}
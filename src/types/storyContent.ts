@@ -0,0 +1,167 @@
+// Shapes of the JSON files in data/stories/<storyId>/
+
+export type StatValue = string | number | boolean | string[] | { [key: string]: StatValue };
+
+export interface StoryCharacter {
+  id: string;
+  name: string;
+  type: string;
+  description: string;
+  personality: string;
+  abilities: string[];
+  location: string;
+  relationships?: Record<string, string>;
+  dialogue_style: string;
+  story_role: string;
+  backstory?: string;
+  combat_stats?: StatValue;
+  conversation_triggers?: Record<string, string>;
+  mystical_abilities?: Record<string, string>;
+}
+
+export type ConnectionState = 'open' | 'locked' | 'sealed' | 'one-way';
+
+// What opens a locked or sealed connection: a held item, by id, or any held
+// item with a property (e.g. "unlocks_second_chamber")
+export interface ConnectionRequirement {
+  item?: string;
+  property?: string;
+}
+
+// A way from one location to another. Connections are directed; a
+// two-way door is listed on both locations.
+export interface StoryConnection {
+  to: string;
+  state: ConnectionState;
+  requires?: ConnectionRequirement;
+  description?: string;
+}
+
+export interface StoryLocation {
+  id: string;
+  name: string;
+  type: string;
+  description: string;
+  atmosphere: string;
+  notable_features: string[];
+  connections?: StoryConnection[];
+  inhabitants: string[];
+  dangers: string;
+  story_significance: string;
+}
+
+export interface StoryBeat {
+  id: string;
+  name: string;
+  type: string;
+  description: string;
+  story_significance: string;
+  choices?: Array<{ option: string; consequences: string }>;
+  key_information_revealed?: string[];
+}
+
+export type LoreImportance = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
+
+export interface StoryLoreEntry {
+  id: string;
+  topic: string;
+  description: string;
+  category: string;
+  importance: LoreImportance;
+  keywords: string[];
+  // Location id or name this entry belongs to, for scene-aware retrieval
+  location?: string;
+}
+
+// Session state a quest objective waits for; every field given must hold
+export interface QuestCondition {
+  // Story item held, by id
+  item?: string;
+  // Any held item with this property
+  property?: string;
+  // Location visited at some point
+  location?: string;
+  // Story flag the DM set (see flags_set in the story turn)
+  flag?: string;
+}
+
+export interface QuestObjective {
+  id: string;
+  description: string;
+  // Objectives of the same quest to complete first
+  after?: string[];
+  // One condition, or a list of which any one completes the objective
+  completeWhen: QuestCondition | QuestCondition[];
+  failWhen?: QuestCondition | QuestCondition[];
+}
+
+// Entry of the optional quests.json
+export interface StoryQuest {
+  id: string;
+  name: string;
+  description?: string;
+  // Quests to complete first
+  after?: string[];
+  objectives: QuestObjective[];
+}
+
+// What ends a story; every field given must hold
+export interface EndingCondition {
+  // Quest completed, e.g. the one holding the final beat
+  quest?: string;
+  // Location the player is in at the end of the turn
+  location?: string;
+  flag?: string;
+  // The player character died this turn (needs death enabled in the DM profile)
+  death?: boolean;
+}
+
+// Entry of the optional "endings" array of story.json
+export interface StoryEnding {
+  id: string;
+  name: string;
+  // What happened, for the epilogue; also the epilogue if none can be generated
+  description?: string;
+  // One condition, or a list of which any one reaches the ending
+  when: EndingCondition | EndingCondition[];
+}
+
+export type NarrationLength = 'short' | 'medium' | 'long';
+
+// Optional "dmProfile" block of story.json, after merging over the defaults
+export interface StoryDmProfile {
+  // How the DM sounds, e.g. "gentle and encouraging"
+  tone: string;
+  // Action types players may send; null allows every type
+  allowedActionTypes: string[] | null;
+  death: {
+    // When false the player character cannot die
+    enabled: boolean;
+    // Replace the built-in death & consequences rules
+    rules: string[];
+  };
+  // Number of choices per turn, within MIN_STORY_CHOICES-MAX_STORY_CHOICES
+  choices: { min: number; max: number };
+  narrationLength: NarrationLength;
+  // Appended to the DM rules
+  extraRules: string[];
+}
+
+export interface StoryContentPack {
+  storyId: string;
+  // Raw story.json (StoryMetadata plus optional engine blocks)
+  story: any;
+  dmProfile: StoryDmProfile;
+  characters: StoryCharacter[];
+  locations: StoryLocation[];
+  storyBeats: StoryBeat[];
+  quests: StoryQuest[];
+  // Checked in order after every turn; the first one reached ends the session
+  endings: StoryEnding[];
+  lore: StoryLoreEntry[];
+  // Raw items.json entries; item templates are derived from these
+  items: any[];
+  // Incremented on every successful (re)load
+  version: number;
+  loadedAt: Date;
+}
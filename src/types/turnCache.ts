@@ -0,0 +1,15 @@
+/**
+ * Storage for cached turn responses. Implementations must expire entries
+ * after their TTL; the in-memory backend also enforces a size cap.
+ */
+export interface TurnCacheBackend<T = any> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface TurnCacheKey {
+  sessionId: string;
+  turnNumber: number;
+  promptFingerprint: string;
+}
@@ -0,0 +1,39 @@
+// LLM token usage accounting and quotas
+
+export type UsagePeriod = 'daily' | 'monthly';
+
+export interface TierQuota {
+  // Total tokens per UTC day / calendar month; omit for unlimited
+  daily?: number;
+  monthly?: number;
+}
+
+export interface UsageRecord {
+  userId?: string;
+  sessionId?: string;
+  storyId?: string;
+  provider: string;
+  model: string;
+  // What the call was for, e.g. 'narrate' or 'repair'
+  task: string;
+  promptTokens: number;
+  candidateTokens: number;
+  totalTokens: number;
+}
+
+export interface UsageTotals {
+  promptTokens: number;
+  candidateTokens: number;
+  totalTokens: number;
+  calls: number;
+}
+
+export interface QuotaStatus {
+  tier: string;
+  allowed: boolean;
+  // The first period whose limit is exhausted, when not allowed
+  exceeded?: UsagePeriod;
+  usage: Record<UsagePeriod, number>;
+  limits: Record<UsagePeriod, number | null>;
+  resetsAt: Record<UsagePeriod, string>;
+}
@@ -0,0 +1,49 @@
+// Matches the free-text location a model reports (context.location) to a
+// location id from the story's locations.json.
+
+import { StoryLocation } from '../types/storyContent';
+import { analyze } from './textAnalysis';
+
+/**
+ * Resolve a reported location by exact id or name, then by the location
+ * whose name or id terms all appear in the report ("The Table Chamber, by
+ * the door" -> the table chamber). Returns null when nothing matches or the
+ * best match is ambiguous.
+ */
+export function resolveLocationId(locations: StoryLocation[], reported: string): string | null {
+  const text = reported.trim().toLowerCase();
+  if (!text) {
+    return null;
+  }
+
+  const exact = locations.find(location => location.id.toLowerCase() === text || location.name.toLowerCase() === text);
+  if (exact) {
+    return exact.id;
+  }
+
+  const reportedTerms = new Set(analyze(text));
+  let best: { id: string; terms: number } | null = null;
+  let ambiguous = false;
+
+  for (const location of locations) {
+    const terms = Math.max(
+      matchedTerms(analyze(location.name), reportedTerms),
+      matchedTerms(analyze(location.id), reportedTerms)
+    );
+    if (terms === 0) continue;
+
+    if (!best || terms > best.terms) {
+      best = { id: location.id, terms };
+      ambiguous = false;
+    } else if (terms === best.terms) {
+      ambiguous = true;
+    }
+  }
+
+  return best && !ambiguous ? best.id : null;
+}
+
+// Number of terms when every one of them appears in the report, else 0
+function matchedTerms(terms: string[], reportedTerms: Set<string>): number {
+  return terms.length > 0 && terms.every(term => reportedTerms.has(term)) ? terms.length : 0;
+}
@@ -0,0 +1,68 @@
+// Guards for player-written text placed into model prompts: delimiting and
+// escaping, plus heuristics that flag prompt-injection attempts.
+
+import { InjectionAssessment } from '../types/prompt';
+
+export const PLAYER_INPUT_TAG = 'player_input';
+
+// Longer player messages are cut; real actions are a sentence or two
+export const MAX_PLAYER_INPUT_CHARS = 2000;
+
+const INJECTION_PATTERNS: Array<{ signal: string; pattern: RegExp }> = [
+  {
+    signal: 'override_instructions',
+    pattern: /\b(ignore|disregard|forget|override|bypass)\b[^.\n]{0,40}\b(instructions?|rules?|prompts?|directions?|guidelines?|constraints?)\b/i
+  },
+  {
+    signal: 'persona_change',
+    pattern: /\b(you are now|from now on,? you|new (rules|instructions)|your (real|new|true) (role|instructions|purpose))\b/i
+  },
+  {
+    signal: 'system_reference',
+    pattern: /\b(system prompt|system message|system instruction|developer mode|jailbreak|dungeon master rules|dm rules)\b/i
+  },
+  {
+    signal: 'role_marker',
+    pattern: /(^\s*(system|assistant|model|developer|narrator)\s*:)|(<\/?\s*(system|instructions?|player_input)\b)/im
+  },
+  {
+    signal: 'schema_tampering',
+    pattern: /\b(items_gained|items_lost|inventory_changes|gold_change)\b|"(narrative|choices)"\s*:/i
+  },
+  {
+    signal: 'inventory_demand',
+    pattern: /\b(add|put|grant|spawn)\b[^.\n]{0,40}\b(to|in|into) my inventory\b|\b(give|grant) me\b[^.\n]{0,30}\b(legendary|epic|artifact|infinite|unlimited|every item|all (the )?items)\b/i
+  }
+];
+
+/**
+ * Make player text safe to embed between player_input tags: drop control
+ * characters, neutralize angle brackets so the tags cannot be closed or
+ * forged, and cap the length
+ */
+export function escapePlayerText(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f\u200b-\u200f\u202a-\u202e\u2066-\u2069]/g, '')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .slice(0, MAX_PLAYER_INPUT_CHARS)
+    .trim();
+}
+
+/**
+ * Escape player text and wrap it in player_input tags
+ */
+export function delimitPlayerText(text: string): string {
+  return `<${PLAYER_INPUT_TAG}>\n${escapePlayerText(text)}\n</${PLAYER_INPUT_TAG}>`;
+}
+
+/**
+ * Flag player text that tries to address the model instead of acting in the
+ * story. Heuristic: a hit is a reason for caution, not proof of abuse.
+ */
+export function assessInjection(text: string): InjectionAssessment {
+  const signals = INJECTION_PATTERNS
+    .filter(({ pattern }) => pattern.test(text))
+    .map(({ signal }) => signal);
+  return { suspicious: signals.length > 0, signals };
+}
@@ -0,0 +1,89 @@
+// Lightweight text analysis used by story retrieval: tokenization, stopword
+// removal and a suffix-stripping stemmer. Kept dependency-free on purpose so
+// indexes can be built offline and deterministically.
+
+const STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'doing', 'down', 'during', 'each', 'few', 'for', 'from', 'further',
+  'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'herself', 'him', 'himself', 'his', 'how',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'let', 'me', 'more', 'most', 'my', 'myself',
+  'no', 'nor', 'not', 'now', 'of', 'off', 'on', 'once', 'only', 'or', 'other', 'our', 'ours', 'ourselves',
+  'out', 'over', 'own', 'same', 'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their',
+  'theirs', 'them', 'themselves', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'too',
+  'under', 'until', 'up', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who',
+  'whom', 'why', 'will', 'with', 'would', 'you', 'your', 'yours', 'yourself', 'yourselves'
+]);
+
+const VOWEL = /[aeiouy]/;
+
+/**
+ * Reduce a word to an approximate stem. This is not a full Porter stemmer,
+ * but it folds the common English inflections ("chambers", "examined",
+ * "examining") onto the same term, which is what retrieval needs.
+ */
+export function stem(word: string): string {
+  let w = word;
+  if (w.length <= 3) return w;
+
+  if (w.endsWith('ies') && w.length > 4) {
+    w = w.slice(0, -3) + 'y';
+  } else if (w.endsWith('sses')) {
+    w = w.slice(0, -2);
+  } else if (w.endsWith('s') && !w.endsWith('ss') && !w.endsWith('us') && !w.endsWith('is')) {
+    w = w.slice(0, -1);
+  }
+
+  for (const suffix of ['ingly', 'edly', 'ing', 'ed']) {
+    if (w.endsWith(suffix)) {
+      const base = w.slice(0, -suffix.length);
+      if (base.length >= 3 && VOWEL.test(base)) {
+        w = base;
+        // "stopped" -> "stop", "hopping" -> "hop"
+        if (/([^aeiouslz])\1$/.test(w)) {
+          w = w.slice(0, -1);
+        }
+      }
+      break;
+    }
+  }
+
+  for (const suffix of ['ational', 'fulness', 'iveness', 'ation', 'ness', 'ment', 'ful', 'ly']) {
+    if (w.endsWith(suffix) && w.length - suffix.length >= 4) {
+      w = w.slice(0, -suffix.length);
+      break;
+    }
+  }
+
+  if (w.endsWith('e') && w.length > 4) {
+    w = w.slice(0, -1);
+  }
+
+  return w;
+}
+
+/**
+ * Split text into lowercase word tokens without applying any regex built
+ * from user input.
+ */
+export function tokenize(text: string): string[] {
+  return (text || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0);
+}
+
+export function isStopword(token: string): boolean {
+  return STOPWORDS.has(token);
+}
+
+/**
+ * Full analysis pipeline: tokenize, drop stopwords and very short tokens, stem.
+ */
+export function analyze(text: string): string[] {
+  return tokenize(text)
+    .filter(token => token.length > 1 && !isStopword(token))
+    .map(stem);
+}